@@ -1,70 +1,4241 @@
 // --- Internal Type Definitions ---
 
+/**
+ * Type-only key recording the family of a result, so that results with the custom
+ * prefixes of `createResult` are still told apart. It never exists at runtime.
+ */
+declare const resultKind: unique symbol;
+
 /**
  * The internal representation of the result union.
- * Exported via the public `ResultType` type alias.
+ * Exported as `ResultType` for code that works with arbitrary tags.
  */
-type ResultType<T extends string, D> = {
+type ResultType<
+	T extends string,
+	D,
+	K extends ResultKind = T extends SuccessTag ? "ok" : "err",
+> = {
 	type: T;
 	data: D;
+	/** Optional, so plain `{ type, data }` objects still qualify */
+	readonly [resultKind]?: K;
+};
+
+/**
+ * The family of a result: "ok" for successes and "err" for errors.
+ */
+type ResultKind = "ok" | "err";
+
+/**
+ * Any result, regardless of its tag or payload.
+ * Only the `type` and `data` fields are required, so results built by hand also qualify.
+ */
+type AnyResult = { type: string; data: unknown };
+
+/**
+ * Tags belonging to the success family ("SUCCESS" and every "SUCCESS_*" variant).
+ */
+type SuccessTag = "SUCCESS" | `SUCCESS_${string}`;
+
+/**
+ * Tags belonging to the error family ("ERROR" and every "ERROR_*" variant).
+ */
+type ErrorTag = "ERROR" | `ERROR_${string}`;
+
+/**
+ * Resolves the family of a result. Results created by this library carry it in
+ * their type (which also covers custom prefixes from `createResult`),
+ * while results built by hand are classified by their "SUCCESS"/"ERROR" tag.
+ */
+type KindOf<R extends AnyResult> = R extends AnyResult
+	? typeof resultKind extends keyof R
+		? R extends { readonly [resultKind]?: infer K }
+			? Exclude<K, undefined>
+			: never
+		: R["type"] extends SuccessTag
+			? "ok"
+			: R["type"] extends ErrorTag
+				? "err"
+				: "unknown"
+	: never;
+
+/**
+ * Narrows a result union to its success members.
+ * A result with a plain `string` tag is narrowed to the success family instead.
+ */
+type SuccessOf<R> = R extends AnyResult
+	? KindOf<R> extends "ok"
+		? R
+		: string extends R["type"]
+			? R & { type: SuccessTag }
+			: never
+	: never;
+
+/**
+ * Narrows a result union to its error members.
+ * A result with a plain `string` tag is narrowed to the error family instead.
+ */
+type ErrorOf<R> = R extends AnyResult
+	? KindOf<R> extends "err"
+		? R
+		: string extends R["type"]
+			? R & { type: ErrorTag }
+			: never
+	: never;
+
+/**
+ * Narrows a result union to the members whose tag is in `T`.
+ * Members declared with a union of tags are narrowed to the matching tags only.
+ */
+type WithTag<R, T extends string> = R extends AnyResult
+	? [Extract<R["type"], T>] extends [never]
+		? never
+		: R & { type: Extract<R["type"], T> }
+	: never;
+
+/**
+ * The tag layout of a result factory: an optional namespace (including its separator),
+ * the family prefixes, and the separator placed between a prefix and a custom tag.
+ */
+type ResultShape = {
+	namespace: string;
+	success: string;
+	error: string;
+	separator: string;
+};
+
+/**
+ * The tag layout of the default `Result` export, e.g. "SUCCESS_USER_CREATED".
+ */
+type DefaultShape = {
+	namespace: "";
+	success: "SUCCESS";
+	error: "ERROR";
+	separator: "_";
+};
+
+type OptionOf<
+	O,
+	K extends keyof ResultFactoryOptions,
+	Default extends string,
+> = O extends { [P in K]: infer V extends string } ? V : Default;
+
+/**
+ * The tag layout described by the options passed to `createResult`.
+ */
+type ShapeOf<O extends ResultFactoryOptions> = {
+	namespace: O extends { namespace: infer N extends string }
+		? `${N}${OptionOf<O, "namespaceSeparator", "/">}`
+		: "";
+	success: OptionOf<O, "successPrefix", "SUCCESS">;
+	error: OptionOf<O, "errorPrefix", "ERROR">;
+	separator: OptionOf<O, "separator", "_">;
+};
+
+/**
+ * The tag used when no custom tag is given, e.g. "SUCCESS" or "billing/ERROR".
+ */
+type BareTag<
+	S extends ResultShape,
+	F extends "success" | "error",
+> = `${S["namespace"]}${S[F]}`;
+
+/**
+ * A custom tag with its family prefix, e.g. "SUCCESS_USER_CREATED" or "billing/ERROR_CARD_DECLINED".
+ */
+type FullTag<
+	S extends ResultShape,
+	F extends "success" | "error",
+	T extends string,
+> = `${BareTag<S, F>}${S["separator"]}${T}`;
+
+type ShapedSuccess<
+	S extends ResultShape,
+	T extends Uppercase<string>,
+	D,
+> = S extends DefaultShape
+	? SuccessResultType<T, D>
+	: ResultType<FullTag<S, "success", T>, D, "ok">;
+
+type ShapedError<
+	S extends ResultShape,
+	T extends Uppercase<string>,
+	D,
+> = S extends DefaultShape
+	? ErrorResultType<T, D>
+	: ResultType<FullTag<S, "error", T>, D, "err">;
+
+type ShapedDefaultSuccess<S extends ResultShape, D> = S extends DefaultShape
+	? DefaultSuccessResultType<D>
+	: ResultType<BareTag<S, "success">, D, "ok">;
+
+type ShapedDefaultError<S extends ResultShape, D> = S extends DefaultShape
+	? DefaultErrorResultType<D>
+	: ResultType<BareTag<S, "error">, D, "err">;
+
+/**
+ * Strips the family prefix (e.g. "SUCCESS_" or "ERROR_") from a tag, leaving bare tags untouched.
+ */
+type StripPrefix<
+	T extends string,
+	S extends ResultShape = DefaultShape,
+> = T extends FullTag<S, "success", infer X>
+	? X
+	: T extends FullTag<S, "error", infer X>
+		? X
+		: T;
+
+/**
+ * Joins segments into every path from the first segment down to the last,
+ * e.g. ["ERROR", "DB", "TIMEOUT"] into "ERROR" | "ERROR_DB" | "ERROR_DB_TIMEOUT".
+ */
+type JoinPaths<
+	Segments extends string[],
+	Sep extends string,
+	Prefix extends string = never,
+> = Segments extends [infer Head extends string, ...infer Rest extends string[]]
+	? (
+			[Prefix] extends [never]
+				? Head
+				: `${Prefix}${Sep}${Head}`
+		) extends infer Path extends string
+		? Path | JoinPaths<Rest, Sep, Path>
+		: never
+	: never;
+
+/**
+ * The paths strictly above each tag in the hierarchy, e.g. "ERROR" | "ERROR_DB" for "ERROR_DB_TIMEOUT".
+ */
+type ParentPaths<T extends string, Sep extends string = "_"> = T extends string
+	? Exclude<TagPaths<T, Sep>, T>
+	: never;
+
+/**
+ * The tags at or below `P` in the hierarchy, where `P` may include the family prefix or not.
+ */
+type UnderPattern<P extends string, S extends ResultShape> =
+	| P
+	| `${P}${S["separator"]}${string}`
+	| FullTag<S, "success" | "error", P>
+	| `${FullTag<S, "success" | "error", P>}${S["separator"]}${string}`;
+
+/**
+ * Fallback keys accepted by `match` in addition to the exact tags of the union.
+ * "SUCCESS_*" and "ERROR_*" handle the remaining tags of their family, "_" handles anything left.
+ */
+type MatchWildcard = "SUCCESS_*" | "ERROR_*" | "_";
+
+/**
+ * Hierarchical keys accepted by `match`, e.g. "ERROR_DB_*" for every "ERROR_DB" and "ERROR_DB_*" tag.
+ * The path is split by the separator of the factory, e.g. "ERROR:DB_*" for "ERROR:DB:TIMEOUT".
+ */
+type HierarchyKey<
+	R extends AnyResult,
+	Sep extends string = "_",
+> = `${ParentPaths<R["type"], Sep>}_*`;
+
+type MatchHandler<R> = (
+	data: R extends AnyResult ? R["data"] : never,
+	result: R,
+) => unknown;
+
+type MatchHandlers<R extends AnyResult, Sep extends string = "_"> = {
+	[K in R["type"]]?: MatchHandler<WithTag<R, K>>;
+} & {
+	[K in HierarchyKey<R, Sep>]?: MatchHandler<
+		WithTag<R, K extends `${infer P}_*` ? P | `${P}${Sep}${string}` : never>
+	>;
+} & {
+	"SUCCESS_*"?: MatchHandler<SuccessOf<R>>;
+	"ERROR_*"?: MatchHandler<ErrorOf<R>>;
+	_?: MatchHandler<R>;
+};
+
+/**
+ * The tags of `R` that are handled by `H`, either explicitly or through a wildcard.
+ */
+type CoveredTags<R extends AnyResult, H, Sep extends string = "_"> =
+	| Extract<keyof H, string>
+	| ("_" extends keyof H ? R["type"] : never)
+	| ("SUCCESS_*" extends keyof H ? SuccessOf<R>["type"] : never)
+	| ("ERROR_*" extends keyof H ? ErrorOf<R>["type"] : never)
+	| (keyof H extends infer K
+			? K extends `${infer P}_*`
+				? Extract<R["type"], P | `${P}${Sep}${string}`>
+				: never
+			: never);
+
+/**
+ * Requires a handler for every tag of `R` that is not covered yet and rejects unknown keys.
+ */
+type ExhaustiveHandlers<
+	R extends AnyResult,
+	H,
+	Sep extends string = "_",
+> = H & {
+	[K in Exclude<R["type"], CoveredTags<R, H, Sep>>]: MatchHandler<
+		WithTag<R, K>
+	>;
+} & {
+	[K in Exclude<
+		keyof H,
+		R["type"] | MatchWildcard | HierarchyKey<R, Sep>
+	>]: never;
+};
+
+/**
+ * The union of every handler's return type.
+ */
+type MatchReturn<H> = {
+	[K in keyof H]-?: H[K] extends (...args: never[]) => infer O ? O : never;
+}[keyof H];
+
+/**
+ * A tag given with or without its "SUCCESS_"/"ERROR_" prefix, as the full tags it stands for.
+ */
+type PrefixedTags<T extends string> =
+	| T
+	| FullTag<DefaultShape, "success", T>
+	| FullTag<DefaultShape, "error", T>;
+
+type TagKeys<R extends AnyResult> = R["type"] | StripPrefix<R["type"]>;
+
+type TagTranslation<R> = (
+	data: R extends AnyResult ? R["data"] : never,
+	result: R,
+) => AnyResult;
+
+type TagMap<R extends AnyResult> = {
+	[K in TagKeys<R>]?: TagTranslation<WithTag<R, PrefixedTags<K>>>;
+};
+
+/**
+ * Requires an entry for every error tag of `R` that is neither in `H` nor passed
+ * through, and rejects keys that are not tags of `R`.
+ */
+type ExhaustiveTagMap<R extends AnyResult, H, P extends string> = H & {
+	[K in StripPrefix<
+		Exclude<ErrorOf<R>["type"], PrefixedTags<Extract<keyof H, string> | P>>
+	>]: TagTranslation<WithTag<R, PrefixedTags<K>>>;
+} & {
+	[K in Exclude<keyof H, TagKeys<R>>]: never;
+};
+
+/**
+ * The members of `R` without an entry in `H`, which `Result.mapTags` returns as they are.
+ */
+type Unmapped<R, H> = R extends AnyResult
+	? [Extract<R["type"], PrefixedTags<Extract<keyof H, string>>>] extends [never]
+		? R
+		: never
+	: never;
+
+/**
+ * Replaces the payload of the success members of `R`, keeping every tag intact.
+ */
+type MapOk<R, U> = R extends AnyResult
+	? KindOf<R> extends "ok"
+		? ResultType<R["type"], U, "ok">
+		: R
+	: never;
+
+/**
+ * Replaces the payload of the error members of `R`, keeping every tag intact.
+ */
+type MapErr<R, U> = R extends AnyResult
+	? KindOf<R> extends "err"
+		? ResultType<R["type"], U, "err">
+		: R
+	: never;
+
+/**
+ * Results whose success members all carry a `D` payload, used by the pipeable combinators.
+ */
+type ResultWithOk<D> =
+	| { type: SuccessTag; data: D }
+	| { type: ErrorTag; data: unknown };
+
+/**
+ * Unwraps a result inside `Result.gen` with `yield*`: a success hands back its payload,
+ * while an error is yielded so the generator can short-circuit.
+ */
+type Unwrap = <R extends AnyResult>(
+	result: R,
+) => Generator<ErrorOf<R>, SuccessOf<R>["data"], unknown>;
+
+/**
+ * Like `Unwrap`, but also awaits a promise of a result first.
+ */
+type UnwrapAsync = <R extends AnyResult>(
+	result: R | PromiseLike<R>,
+) => AsyncGenerator<ErrorOf<R>, SuccessOf<R>["data"], unknown>;
+
+/**
+ * Results whose error members all carry a `D` payload, used by the pipeable combinators.
+ */
+type ResultWithErr<D> =
+	| { type: SuccessTag; data: unknown }
+	| { type: ErrorTag; data: D };
+
+/**
+ * Any result from the error family, as returned by an exception classifier.
+ */
+type AnyErrorResult = { type: ErrorTag; data: unknown };
+
+/**
+ * Maps a caught value to a tagged error result.
+ */
+type Classifier<E extends AnyErrorResult> = (error: unknown) => E;
+
+type AnyFunction = (...args: never[]) => unknown;
+
+/**
+ * The string keys of `O` holding methods, which `Result.resultify` wraps.
+ */
+type MethodKeys<O> = {
+	[K in Extract<keyof O, string>]: O[K] extends AnyFunction ? K : never;
+}[Extract<keyof O, string>];
+
+type MethodOverride = {
+	/** Tag of the success results, e.g. "USER_FOUND" for "SUCCESS_USER_FOUND" */
+	tag?: Uppercase<string>;
+	/** Replaces the classifier given to `Result.resultify` for this method */
+	classify?: Classifier<AnyErrorResult>;
+};
+
+type MethodOverrides<O> = { [K in MethodKeys<O>]?: MethodOverride };
+
+/**
+ * The result of a wrapped method returning `T`, as a promise for async methods.
+ */
+type ResultifiedReturn<T, Tag extends Uppercase<string>, E> = [T] extends [
+	PromiseLike<infer U>,
+]
+	? Promise<TaggedOk<Tag, U> | E>
+	: TaggedOk<Tag, T> | E;
+
+/**
+ * `O` with its methods returning results. The success tag and the error results
+ * of each method come from its override, if any, and otherwise from `E`.
+ */
+type Resultified<O, E, M> = {
+	[K in keyof O]: K extends MethodKeys<O>
+		? O[K] extends (...args: infer A) => infer T
+			? (
+					...args: A
+				) => ResultifiedReturn<
+					T,
+					K extends keyof M
+						? M[K] extends { tag: infer Tag extends Uppercase<string> }
+							? Tag
+							: never
+						: never,
+					K extends keyof M
+						? M[K] extends { classify: Classifier<infer E2> }
+							? E2
+							: E
+						: E
+				>
+			: O[K]
+		: O[K];
+};
+
+/**
+ * A tuple, array or record of results, as accepted by the collection combinators.
+ * The empty tuple makes TypeScript infer tuples instead of arrays.
+ */
+type ResultCollection<R = AnyResult> =
+	| readonly R[]
+	| []
+	| Readonly<Record<string, R>>;
+
+type ValuesOf<C> = C extends readonly unknown[] ? C[number] : C[keyof C];
+
+/**
+ * The success payloads of a collection, keeping tuple positions and record keys.
+ */
+type OkValues<C> = { -readonly [K in keyof C]: SuccessOf<C[K]>["data"] };
+
+/**
+ * A success result with a configurable tag, falling back to "SUCCESS" when no tag is given.
+ */
+type TaggedOk<T extends Uppercase<string>, D> = [T] extends [never]
+	? DefaultSuccessResultType<D>
+	: SuccessResultType<T, D>;
+
+/**
+ * An error result with a configurable tag, falling back to "ERROR" when no tag is given.
+ */
+type TaggedErr<T extends Uppercase<string>, D> = [T] extends [never]
+	? DefaultErrorResultType<D>
+	: ErrorResultType<T, D>;
+
+/**
+ * A result, a promise of a result, or a function producing either.
+ * Functions are only called once a concurrency slot is free.
+ */
+type ResultTask<R = AnyResult> =
+	| R
+	| PromiseLike<R>
+	| (() => R | PromiseLike<R>);
+
+type Settled<X> = X extends () => infer P ? Awaited<P> : Awaited<X>;
+
+type SettledAll<C> = { -readonly [K in keyof C]: Settled<C[K]> };
+
+type AllReturn<C, T extends Uppercase<string>> =
+	| TaggedOk<T, OkValues<C>>
+	| ErrorOf<ValuesOf<C>>;
+
+type CollectErrorsReturn<
+	C,
+	T extends Uppercase<string>,
+	E extends Uppercase<string>,
+> = TaggedOk<T, OkValues<C>> | TaggedErr<E, ErrorOf<ValuesOf<C>>[]>;
+
+type AnyReturn<C, E extends Uppercase<string>> =
+	| SuccessOf<ValuesOf<C>>
+	| TaggedErr<E, ErrorOf<ValuesOf<C>>[]>;
+
+type PartitionReturn<R> = [SuccessOf<R>[], ErrorOf<R>[]];
+
+type CollectOptions<T extends Uppercase<string>> = {
+	/** Tag of the aggregated success result, e.g. "ALL_LOADED" for "SUCCESS_ALL_LOADED" */
+	tag?: T;
+};
+
+type CollectErrorsOptions<
+	T extends Uppercase<string>,
+	E extends Uppercase<string>,
+> = CollectOptions<T> & {
+	/** Tag of the aggregated error result, e.g. "BATCH_FAILED" for "ERROR_BATCH_FAILED" */
+	errorTag?: E;
+};
+
+type AnyOptions<E extends Uppercase<string>> = {
+	/** Tag of the aggregated error result, e.g. "ALL_FAILED" for "ERROR_ALL_FAILED" */
+	errorTag?: E;
+};
+
+type ConcurrencyOptions = {
+	/** Maximum number of tasks running at the same time (defaults to no limit) */
+	concurrency?: number;
+};
+
+/**
+ * The fields passed to `Result.validate`: a result per field, nested in objects and arrays.
+ */
+type ValidationShape =
+	| AnyResult
+	| readonly ValidationShape[]
+	| { readonly [field: string]: ValidationShape };
+
+/**
+ * The success payloads of a validation shape, keeping its structure.
+ */
+type ValidatedValue<S> = S extends AnyResult
+	? SuccessOf<S>["data"]
+	: { -readonly [K in keyof S]: ValidatedValue<S[K]> };
+
+/**
+ * Pairs the path of every field of a validation shape, e.g. "items[2].qty",
+ * with the error members of its result.
+ */
+type FieldEntries<S, P extends string> = [S] extends [AnyResult]
+	? [P, ErrorOf<S>]
+	: S extends readonly unknown[]
+		? FieldEntries<S[number], `${P}[${number}]`>
+		: {
+				[K in keyof S & string]: FieldEntries<
+					S[K],
+					P extends "" ? K : `${P}.${K}`
+				>;
+			}[keyof S & string];
+
+/**
+ * The errors of a failed validation, listed by the path of their field.
+ */
+type FieldErrors<S> = {
+	[E in FieldEntries<S, ""> as E extends [infer P extends string, unknown]
+		? P
+		: never]?: E extends [string, infer F] ? F[] : never;
+};
+
+type ValidateReturn<S, T extends Uppercase<string>> =
+	| TaggedOk<T, ValidatedValue<S>>
+	| ResultType<"ERROR_VALIDATION", FieldErrors<S>>;
+
+/**
+ * Type-only key carrying the payload type of a catalog entry created with `type<T>()`.
+ */
+declare const PAYLOAD: unique symbol;
+
+/**
+ * A catalog entry describing the payload type of a tag, created with `type<T>()`.
+ */
+type PayloadType<T> = { readonly [PAYLOAD]: T };
+
+type PayloadMap = Record<string, PayloadType<unknown>>;
+
+type PayloadOf<P> = P extends PayloadType<infer T> ? T : never;
+
+type CatalogTag<K> = Extract<K, Uppercase<string>>;
+
+type CatalogSuccess<S extends PayloadMap> = {
+	[K in keyof S]: SuccessResultType<CatalogTag<K>, PayloadOf<S[K]>>;
+}[keyof S];
+
+type CatalogError<E extends PayloadMap> = {
+	[K in keyof E]: ErrorResultType<CatalogTag<K>, PayloadOf<E[K]>>;
+}[keyof E];
+
+/**
+ * The typed constructors, tag lists and inferred union of a result catalog.
+ */
+type ResultCatalog<S extends PayloadMap, E extends PayloadMap> = {
+	ok: {
+		[K in keyof S]: (
+			data: PayloadOf<S[K]>,
+		) => SuccessResultType<CatalogTag<K>, PayloadOf<S[K]>>;
+	};
+	err: {
+		[K in keyof E]: (
+			data: PayloadOf<E[K]>,
+		) => ErrorResultType<CatalogTag<K>, PayloadOf<E[K]>>;
+	};
+	tags: {
+		success: CatalogSuccess<S>["type"][];
+		error: CatalogError<E>["type"][];
+	};
+	/**
+	 * Type-only union of every result in the catalog, to be used as `typeof Catalog.Type`.
+	 * It is `undefined` at runtime.
+	 */
+	Type: CatalogSuccess<S> | CatalogError<E>;
+};
+
+/**
+ * Rejects tags at compile time that already carry a family prefix
+ * (which would produce e.g. "ERROR_ERROR_X") or that are not uppercase.
+ */
+type ValidTag<
+	T extends string,
+	S extends ResultShape = DefaultShape,
+> = T extends
+	| S["success"]
+	| S["error"]
+	| `${S["success"] | S["error"]}${S["separator"]}${string}`
+	? `Tags must not start with ${S["success"]}${S["separator"]} or ${S["error"]}${S["separator"]}, the prefix is added automatically`
+	: T extends Uppercase<T>
+		? T
+		: never;
+
+/**
+ * How `ok` and `err` handle tags that are empty, not SCREAMING_SNAKE_CASE
+ * or already prefixed with "SUCCESS_"/"ERROR_":
+ * - "strict" throws a `TypeError`
+ * - "warn" reports the tag to the logger and normalizes it
+ * - "off" uses the tag as-is without checking it
+ */
+type TagValidation = "strict" | "warn" | "off";
+
+type ResultConfig = {
+	/** Defaults to "warn" */
+	tagValidation: TagValidation;
+	/** Receives the messages of the "warn" mode and of failing hooks, defaults to `console.warn` */
+	logger: (message: string) => void;
+	/** Holds the hooks of `Result.withHooks`, e.g. an `AsyncLocalStorage` from "node:async_hooks" */
+	hookStorage: HookStorage | undefined;
+};
+
+/**
+ * The parts of Node's `AsyncLocalStorage` used to scope hooks to an async context.
+ */
+type HookStorage = {
+	getStore(): unknown;
+	run<T>(store: readonly ResultHooks[], fn: () => T): T;
+};
+
+/**
+ * The parts of the Standard Schema interface (https://standardschema.dev) used by
+ * `Result.parse`. zod, valibot and arktype schemas all implement it.
+ */
+type StandardSchema<Output = unknown> = {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+		readonly types?: { readonly output: Output } | undefined;
+	};
+};
+
+type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| {
+			readonly issues: ReadonlyArray<{
+				readonly message: string;
+				readonly path?:
+					| ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+					| undefined;
+			}>;
+	  };
+
+/**
+ * Validates the payload of one tag: a Standard Schema or a predicate.
+ */
+type PayloadValidator =
+	| StandardSchema
+	| ((data: unknown) => boolean | PromiseLike<boolean>);
+
+/**
+ * Maps every accepted tag to the validator of its payload.
+ */
+type SchemaMap = { [K in SuccessTag | ErrorTag]?: PayloadValidator };
+
+/**
+ * The payload type produced by a validator.
+ */
+type ValidatedData<V> = V extends StandardSchema
+	? NonNullable<V["~standard"]["types"]>["output"]
+	: V extends (data: unknown) => data is infer D
+		? D
+		: unknown;
+
+/**
+ * The result returned by `Result.parse` when the value does not match the schema map.
+ */
+type InvalidResult = ResultType<
+	"ERROR_INVALID_RESULT",
+	{ issues: ParseIssue[]; value: unknown }
+>;
+
+/**
+ * The union of results accepted by a schema map, plus `InvalidResult`.
+ */
+type ParsedResult<M extends SchemaMap> =
+	| {
+			[K in keyof M & string]: ResultType<K, ValidatedData<M[K]>>;
+	  }[keyof M & string]
+	| InvalidResult;
+
+/**
+ * Outcome of validating a payload, before it is turned into a result.
+ */
+type PayloadCheck = { value: unknown } | { issues: ParseIssue[] };
+
+/**
+ * HTTP status codes for every tag of a result union. The bare "SUCCESS" and
+ * "ERROR" tags may be left out, defaulting to 200 and 500.
+ */
+type StatusMap<R extends AnyResult> = {
+	[K in Exclude<R["type"], "SUCCESS" | "ERROR">]: number;
+} & { SUCCESS?: number; ERROR?: number };
+
+/**
+ * Returned by `Result.fromResponse` when the request or reading the body fails.
+ */
+type NetworkErrorResult = ResultType<"ERROR_NETWORK", { error: unknown }>;
+
+/**
+ * Returned by `Result.fromResponse` when the body is not a JSON-encoded result.
+ */
+type InvalidBodyResult = ResultType<
+	"ERROR_INVALID_BODY",
+	{ status: number; body: string; error: unknown }
+>;
+
+/**
+ * The timer functions used to wait, replaceable for deterministic tests.
+ */
+type ResultTimer = {
+	setTimeout(callback: () => void, ms: number): unknown;
+	clearTimeout(handle: unknown): void;
 };
 
-// --- Function Implementations ---
+/**
+ * Returned when an `AbortSignal` cancels the work.
+ */
+type AbortedResult = ResultType<"ERROR_ABORTED", { reason: unknown }>;
+
+/**
+ * Returned by `Result.withTimeout` when the work takes too long.
+ */
+type TimeoutResult = ResultType<"ERROR_TIMEOUT", { ms: number }>;
+
+/**
+ * Work that can be cancelled: a promise, or a function receiving an `AbortSignal`.
+ */
+type CancellableWork<R> =
+	| PromiseLike<R>
+	| ((signal: AbortSignal) => R | PromiseLike<R>);
+
+/**
+ * The error members of `R` whose tag is in `T`, given with or without the "ERROR_" prefix.
+ */
+type RetriedErrors<R, T extends string> = WithTag<
+	ErrorOf<R>,
+	T | FullTag<DefaultShape, "error", T>
+>;
+
+type RetryOptions<R, T extends string> = {
+	/** The error tags to retry, with or without their "ERROR_" prefix */
+	on: readonly T[];
+	/** The maximum number of calls, including the first one. Defaults to 3 */
+	attempts?: number;
+	/**
+	 * The delay in milliseconds before the next attempt, or a function computing it from
+	 * the number of the failed attempt and its error. Defaults to 100ms, doubling after every attempt.
+	 */
+	backoff?: number | ((attempt: number, error: RetriedErrors<R, T>) => number);
+	/** Shortens each delay by a random fraction of up to this ratio (0 to 1). Defaults to 0 */
+	jitter?: number;
+	/** Stops retrying when aborted */
+	signal?: AbortSignal;
+	/** Waits between attempts, defaults to the global timer functions */
+	timer?: ResultTimer;
+	/** Reads the current time in milliseconds, defaults to `Date.now` */
+	now?: () => number;
+	/** Returns a random number in [0, 1) for the jitter, defaults to `Math.random` */
+	random?: () => number;
+};
+
+type RetryExhaustedResult<E> = ResultType<
+	"ERROR_RETRY_EXHAUSTED",
+	{ attempts: number; errors: E[]; elapsedMs: number }
+>;
+
+type RetryReturn<R, T extends string> =
+	| Exclude<R, RetriedErrors<R, T>>
+	| RetryExhaustedResult<RetriedErrors<R, T>>
+	| AbortedResult;
+
+/**
+ * A sequence of results consumed by the `Result.stream` helpers.
+ */
+type ResultSource<R> = Iterable<R> | AsyncIterable<R> | ReadableStream<R>;
+
+type StreamOptions = {
+	/** Maximum number of payloads transformed at the same time. Defaults to 1 */
+	concurrency?: number;
+};
+
+type ErrorBudgetOptions = {
+	/** The number of errors passed through before the stream is stopped */
+	max: number;
+};
+
+/**
+ * Returned by `Result.stream.errorBudget` in place of the error that exceeded the budget.
+ */
+type BudgetExceededResult<E> = ResultType<
+	"ERROR_BUDGET_EXCEEDED",
+	{ max: number; error: E }
+>;
+
+type FormatOptions = {
+	/** Colors the output with ANSI escape codes, e.g. for terminals. Defaults to false */
+	colors?: boolean;
+	/** How many levels of nested objects are shown. Defaults to 2 */
+	depth?: number;
+};
+
+type LogOptions = {
+	/**
+	 * Payload paths whose values are replaced by `censor`, e.g. "password",
+	 * "card.number" or "users[*].email", where "*" matches any key or index
+	 */
+	redact?: readonly string[];
+	/** Replaces redacted values, defaults to "[Redacted]" */
+	censor?: unknown;
+};
+
+type AnsiStyle = "bold" | "red" | "green" | "yellow" | "grey" | "cyan";
+
+type RenderState = {
+	colors: boolean;
+	depth: number;
+	/** The objects being rendered, to detect circular references */
+	seen: Set<object>;
+};
+
+// --- Internal Runtime Helpers ---
+
+/**
+ * Marker holding the family of every result created by this library, so that
+ * arbitrary `{ type, data }` objects (e.g. parsed from a JSON body) are never
+ * mistaken for real results.
+ */
+const RESULT_BRAND = Symbol.for("@voiys/tagged-result/brand");
+
+/**
+ * Lets Node's `util.inspect` (and so `console.log`) render results with `Result.format`.
+ */
+const INSPECT_CUSTOM = Symbol.for("nodejs.util.inspect.custom");
+
+type BrandedInspect = typeof inspectResult & { [RESULT_BRAND]: ResultKind };
+
+/**
+ * One shared inspect function per family, each carrying the brand. Results get
+ * a single non-enumerable property for both, which keeps creating them cheap.
+ */
+const BRANDED_INSPECT: Record<ResultKind, BrandedInspect> = {
+	ok: brandInspect("ok"),
+	err: brandInspect("err"),
+};
+
+function brandInspect(kind: ResultKind): BrandedInspect {
+	function inspect(
+		this: AnyResult,
+		depth: number | null,
+		options: { colors?: boolean },
+	): string {
+		return inspectResult.call(this, depth, options);
+	}
+	return Object.defineProperty(inspect, RESULT_BRAND, {
+		value: kind,
+	}) as BrandedInspect;
+}
+
+function brand<T extends string, D>(
+	result: { type: T; data: D },
+	kind: ResultKind,
+): ResultType<T, D> {
+	Object.defineProperty(result, INSPECT_CUSTOM, {
+		value: BRANDED_INSPECT[kind],
+	});
+	return result as ResultType<T, D>;
+}
+
+function brandOf(value: object): ResultKind | undefined {
+	return (value as { [INSPECT_CUSTOM]?: Partial<BrandedInspect> })[
+		INSPECT_CUSTOM
+	]?.[RESULT_BRAND];
+}
+
+function* unwrapResult(
+	result: AnyResult,
+): Generator<AnyResult, unknown, unknown> {
+	if (kindOf(result) === "err") {
+		yield result;
+	}
+	return result.data;
+}
+
+async function* unwrapResultAsync(
+	result: AnyResult | PromiseLike<AnyResult>,
+): AsyncGenerator<AnyResult, unknown, unknown> {
+	return yield* unwrapResult(await result);
+}
+
+/**
+ * Called by `util.inspect` with the remaining depth, which is null for no limit.
+ */
+function inspectResult(
+	this: AnyResult,
+	depth: number | null,
+	options: { colors?: boolean },
+): string {
+	if (depth !== null && depth < 0) {
+		return `[${this.type}]`;
+	}
+	return format(this, {
+		colors: options.colors,
+		depth: depth ?? Number.POSITIVE_INFINITY,
+	});
+}
+
+function isBranded(value: unknown): value is AnyResult {
+	return (
+		typeof value === "object" && value !== null && brandOf(value) !== undefined
+	);
+}
+
+function kindOf(
+	result: AnyResult,
+	shape: ResultShape = DEFAULT_SHAPE,
+): ResultKind | undefined {
+	const kind = brandOf(result);
+	if (kind !== undefined) {
+		return kind;
+	}
+	// Fall back to the tag for results that were built by hand
+	if (inFamily(result.type, shape, "success")) {
+		return "ok";
+	}
+	if (inFamily(result.type, shape, "error")) {
+		return "err";
+	}
+	return undefined;
+}
+
+function bareTag(shape: ResultShape, family: "success" | "error"): string {
+	return `${shape.namespace}${shape[family]}`;
+}
+
+/**
+ * Checks whether a tag is at or below `path` in the hierarchy. The path may
+ * include the family prefix ("ERROR_DB") or not ("DB").
+ */
+function isUnderPath(type: string, path: string, shape: ResultShape): boolean {
+	const separator = shape.separator;
+	return [
+		path,
+		`${bareTag(shape, "success")}${separator}${path}`,
+		`${bareTag(shape, "error")}${separator}${path}`,
+	].some(
+		(parent) => type === parent || type.startsWith(`${parent}${separator}`),
+	);
+}
+
+function inFamily(
+	type: string,
+	shape: ResultShape,
+	family: "success" | "error",
+): boolean {
+	const bare = bareTag(shape, family);
+	return type === bare || type.startsWith(`${bare}${shape.separator}`);
+}
+
+/**
+ * Creates a new result with the same tag, family, breadcrumbs and cause as
+ * `result` but a different payload.
+ */
+function withData(result: AnyResult, data: unknown): AnyResult {
+	return withTrail(
+		{ type: result.type, data },
+		kindOf(result),
+		contextOf(result),
+		causeOf(result),
+	);
+}
+
+/**
+ * Non-enumerable breadcrumbs added by `Result.context`, oldest first.
+ */
+const RESULT_CONTEXT = Symbol.for("@voiys/tagged-result/context");
+
+/**
+ * Non-enumerable result attached by `Result.withCause`.
+ */
+const RESULT_CAUSE = Symbol.for("@voiys/tagged-result/cause");
+
+function contextOf(result: AnyResult): readonly ResultBreadcrumb[] {
+	return (
+		(result as { [RESULT_CONTEXT]?: readonly ResultBreadcrumb[] })[
+			RESULT_CONTEXT
+		] ?? []
+	);
+}
+
+function causeOf(result: AnyResult): AnyResult | undefined {
+	return (result as { [RESULT_CAUSE]?: AnyResult })[RESULT_CAUSE];
+}
+
+/**
+ * Brands `copy` with the given family and attaches the breadcrumbs and cause.
+ */
+function withTrail(
+	copy: AnyResult,
+	kind: ResultKind | undefined,
+	context: readonly ResultBreadcrumb[],
+	cause: AnyResult | undefined,
+): AnyResult {
+	if (kind !== undefined) {
+		brand(copy, kind);
+	}
+	if (context.length > 0) {
+		Object.defineProperty(copy, RESULT_CONTEXT, { value: context });
+	}
+	if (cause !== undefined) {
+		Object.defineProperty(copy, RESULT_CAUSE, { value: cause });
+	}
+	return copy;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+	return (
+		(typeof value === "object" || typeof value === "function") &&
+		value !== null &&
+		typeof (value as { then?: unknown }).then === "function"
+	);
+}
+
+/**
+ * Splits a tuple, array or record into its values, remembering the record keys.
+ */
+function toEntries(collection: object): [string[] | undefined, unknown[]] {
+	if (Array.isArray(collection)) {
+		return [undefined, collection];
+	}
+	return [Object.keys(collection), Object.values(collection)];
+}
+
+/**
+ * Rebuilds an array or a record from values produced by `toEntries`.
+ */
+function fromEntries(keys: string[] | undefined, values: unknown[]): unknown {
+	if (keys === undefined) {
+		return values;
+	}
+	return Object.fromEntries(keys.map((key, index) => [key, values[index]]));
+}
+
+function taggedOk(tag: string | undefined, data: unknown): AnyResult {
+	return tag === undefined ? ok(data) : ok(tag as Uppercase<string>, data);
+}
+
+function taggedErr(tag: string | undefined, data: unknown): AnyResult {
+	return tag === undefined ? err(data) : err(tag as Uppercase<string>, data);
+}
+
+function combineAll(
+	keys: string[] | undefined,
+	results: AnyResult[],
+	tag: string | undefined,
+): AnyResult {
+	const data: unknown[] = [];
+	for (const result of results) {
+		if (!isOk(result)) {
+			return result;
+		}
+		data.push(result.data);
+	}
+	return taggedOk(tag, fromEntries(keys, data));
+}
+
+function combineErrors(
+	keys: string[] | undefined,
+	results: AnyResult[],
+	tag: string | undefined,
+	errorTag: string | undefined,
+): AnyResult {
+	const errors = results.filter((result) => !isOk(result));
+	if (errors.length > 0) {
+		return taggedErr(errorTag, errors);
+	}
+	return taggedOk(
+		tag,
+		fromEntries(
+			keys,
+			results.map((result) => result.data),
+		),
+	);
+}
+
+function combineAny(
+	results: AnyResult[],
+	errorTag: string | undefined,
+): AnyResult {
+	const errors: AnyResult[] = [];
+	for (const result of results) {
+		if (isOk(result)) {
+			return result;
+		}
+		errors.push(result);
+	}
+	return taggedErr(errorTag, errors);
+}
+
+/**
+ * Settles result tasks with at most `concurrency` of them running at once.
+ * Once `stop` returns true no new task is started; tasks already running are awaited,
+ * and the slots of tasks that never started are left out of the returned array.
+ */
+async function settleTasks(
+	tasks: unknown[],
+	concurrency: number,
+	stop: (result: AnyResult) => boolean,
+): Promise<AnyResult[]> {
+	const settled: AnyResult[] = [];
+	let next = 0;
+	let stopped = false;
+	async function worker(): Promise<void> {
+		while (!stopped && next < tasks.length) {
+			const index = next++;
+			const task = tasks[index];
+			const result = (await (typeof task === "function"
+				? task()
+				: task)) as AnyResult;
+			settled[index] = result;
+			if (stop(result)) {
+				stopped = true;
+			}
+		}
+	}
+	const workers = Math.max(1, Math.min(concurrency, tasks.length));
+	await Promise.all(Array.from({ length: workers }, worker));
+	return settled.filter((result) => result !== undefined);
+}
+
+const config: ResultConfig = {
+	tagValidation: "warn",
+	logger: (message) => console.warn(message),
+	hookStorage: undefined,
+};
+
+const SCREAMING_SNAKE_CASE = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/;
+
+const DEFAULT_SHAPE: DefaultShape = {
+	namespace: "",
+	success: "SUCCESS",
+	error: "ERROR",
+	separator: "_",
+};
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Matches one or more family prefixes at the start of a tag, e.g. "ERROR_" or "SUCCESS_ERROR_".
+ */
+function prefixPattern(shape: ResultShape): RegExp {
+	const prefixes = `${escapeRegExp(shape.success)}|${escapeRegExp(shape.error)}`;
+	return new RegExp(
+		`^(?:(?:${prefixes})(?:${escapeRegExp(shape.separator)}|$))+`,
+	);
+}
+
+function describeTagProblem(
+	tag: unknown,
+	shape: ResultShape,
+	prefixes: RegExp,
+): string | undefined {
+	if (typeof tag !== "string") {
+		return "tags must be strings";
+	}
+	if (tag === "") {
+		return "tags must not be empty";
+	}
+	if (prefixes.test(tag)) {
+		return `the ${shape.success}${shape.separator}/${shape.error}${shape.separator} prefix is added automatically`;
+	}
+	// Hierarchy segments are split by the separator, e.g. "DB:TIMEOUT"
+	if (!SCREAMING_SNAKE_CASE.test(tag.split(shape.separator).join("_"))) {
+		return "tags must be SCREAMING_SNAKE_CASE";
+	}
+	return undefined;
+}
+
+function normalizeTag(tag: unknown, prefixes: RegExp): string {
+	return String(tag)
+		.replace(prefixes, "")
+		.replace(/[^A-Za-z0-9]+/g, "_")
+		.replace(/^_+|_+$/g, "")
+		.toUpperCase()
+		.replace(prefixes, "");
+}
+
+/**
+ * Validates a tag passed to `ok`/`err` according to the configured mode.
+ * Returns the tag to use, where an empty string stands for the bare "SUCCESS"/"ERROR" tag.
+ */
+function checkTag(
+	tag: unknown,
+	shape: ResultShape,
+	prefixes: RegExp,
+	family: "success" | "error",
+): string {
+	if (config.tagValidation === "off") {
+		return tag as string;
+	}
+	const problem = describeTagProblem(tag, shape, prefixes);
+	if (problem === undefined) {
+		return tag as string;
+	}
+	const message = `Invalid result tag ${JSON.stringify(tag)}: ${problem}`;
+	if (config.tagValidation === "strict") {
+		throw new TypeError(message);
+	}
+	const normalized = normalizeTag(tag, prefixes);
+	const bare = bareTag(shape, family);
+	const replacement =
+		normalized === "" ? bare : `${bare}${shape.separator}${normalized}`;
+	config.logger(`${message}. Using "${replacement}" instead.`);
+	return normalized;
+}
+
+const globalHooks: ResultHooks[] = [];
+
+/**
+ * Whether global or scoped hooks may be registered. Checked before looking
+ * any hooks up, so that creating results costs nothing extra without them.
+ */
+let hooksEnabled = false;
+
+function refreshHooks(): void {
+	hooksEnabled = globalHooks.length > 0 || config.hookStorage !== undefined;
+}
+
+/**
+ * Set while the hooks run, so that results created by a hook do not notify them again.
+ */
+let notifying = false;
+
+function stackFrames(error: Error): string[] {
+	// V8 frames start with "at", SpiderMonkey and JavaScriptCore frames contain "@"
+	return (error.stack ?? "")
+		.split("\n")
+		.filter((line) => /^\s*at |@/.test(line));
+}
+
+/**
+ * Reads the file of a stack frame, e.g. "file:///app/dist/index.js" from
+ * "at ok (file:///app/dist/index.js:12:5)". Frames without a location, like
+ * "at Array.map (<anonymous>)", have no file.
+ */
+function frameFile(frame: string): string | undefined {
+	return /(?:\(|^\s*at |^[^@(]*@)([^()]*?)(?::\d+)+\)?$/.exec(frame)?.[1];
+}
+
+/**
+ * The file of this module as it appears in stack frames.
+ */
+const MODULE_FILE = frameFile(stackFrames(new Error())[0] ?? "");
+
+/**
+ * Finds the first stack frame outside of this module, so results created by
+ * helpers like `Result.all` or catalog constructors point at the calling code.
+ */
+function captureCallSite(): string | undefined {
+	return stackFrames(new Error())
+		.find((frame) => {
+			const file = frameFile(frame);
+			return file !== undefined && file !== MODULE_FILE;
+		})
+		?.trim();
+}
+
+/**
+ * Calls the hooks of the factory, the global hooks and the hooks of the current
+ * async context for a newly created result. A failing hook is reported to the
+ * logger instead of breaking the code that created the result.
+ */
+function notifyHooks(
+	result: AnyResult,
+	kind: ResultKind,
+	factoryHooks: readonly ResultHooks[],
+): void {
+	if (notifying) {
+		return;
+	}
+	notifying = true;
+	try {
+		runHooks(result, kind, factoryHooks);
+	} finally {
+		notifying = false;
+	}
+}
+
+function runHooks(
+	result: AnyResult,
+	kind: ResultKind,
+	factoryHooks: readonly ResultHooks[],
+): void {
+	const scoped = config.hookStorage?.getStore() as
+		| readonly ResultHooks[]
+		| undefined;
+	let callSite: string | undefined;
+	for (const hooks of [...factoryHooks, ...globalHooks, ...(scoped ?? [])]) {
+		const hook = kind === "ok" ? hooks.onOk : hooks.onErr;
+		if (
+			hook === undefined ||
+			(hooks.sampleRate !== undefined &&
+				(hooks.random ?? Math.random)() >= hooks.sampleRate)
+		) {
+			continue;
+		}
+		const event: ResultEvent = { type: result.type, data: result.data };
+		if (hooks.callSite) {
+			callSite ??= captureCallSite();
+			event.callSite = callSite;
+		}
+		try {
+			hook(event);
+		} catch (error) {
+			config.logger(
+				`A result hook failed for "${result.type}": ${messageOf(error) ?? String(error)}`,
+			);
+		}
+	}
+}
+
+/**
+ * Creates a branded result in the given tag layout. `args` holds either the payload
+ * alone (for the bare tag) or a custom tag followed by the payload.
+ */
+function buildResult(
+	shape: ResultShape,
+	prefixes: RegExp,
+	family: "success" | "error",
+	args: unknown[],
+	hooks: readonly ResultHooks[],
+): AnyResult {
+	const kind = family === "success" ? "ok" : "err";
+	const bare = bareTag(shape, family);
+	let result: AnyResult;
+	if (args.length === 1) {
+		result = brand({ type: bare, data: args[0] }, kind);
+	} else {
+		const tag = checkTag(args[0], shape, prefixes, family);
+		result = brand(
+			{
+				type: tag === "" ? bare : `${bare}${shape.separator}${tag}`,
+				data: args[1],
+			},
+			kind,
+		);
+	}
+	if (hooksEnabled || hooks.length > 0) {
+		notifyHooks(result, kind, hooks);
+	}
+	return result;
+}
+
+/**
+ * Current version of the envelope written by `Result.serialize`.
+ */
+const ENVELOPE_VERSION = 1;
+
+const ENVELOPE_KEY = "$tagged-result";
+
+/**
+ * `$type` names used by the built-in encodings, which codecs may not reuse.
+ */
+const BUILTIN_TYPES = new Set([
+	"undefined",
+	"Number",
+	"BigInt",
+	"Date",
+	"Map",
+	"Set",
+	"Error",
+	"Result",
+	"Object",
+]);
+
+const ERROR_CONSTRUCTORS = new Map<string, ErrorConstructor>([
+	["Error", Error],
+	["TypeError", TypeError],
+	["RangeError", RangeError],
+	["SyntaxError", SyntaxError],
+	["ReferenceError", ReferenceError],
+	["EvalError", EvalError],
+	["URIError", URIError],
+]);
+
+const codecs = new Map<string, ResultCodec>();
+
+function requireKind(result: AnyResult): ResultKind {
+	const kind = kindOf(result);
+	if (kind === undefined) {
+		throw new TypeError(
+			`Cannot tell whether "${result.type}" is a success or an error result`,
+		);
+	}
+	return kind;
+}
+
+/**
+ * Converts a payload to JSON-compatible values, replacing the values JSON
+ * cannot represent with `{ "$type": ... }` objects. Functions and symbols
+ * are dropped, as `JSON.stringify` does.
+ */
+function encodeValue(value: unknown, seen: Set<object>): unknown {
+	switch (typeof value) {
+		case "undefined":
+			return { $type: "undefined" };
+		case "bigint":
+			return { $type: "BigInt", value: value.toString() };
+		case "number":
+			return Number.isFinite(value)
+				? value
+				: { $type: "Number", value: String(value) };
+		case "function":
+		case "symbol":
+			return undefined;
+		case "object":
+			break;
+		default:
+			return value;
+	}
+	if (value === null) {
+		return null;
+	}
+	if (seen.has(value)) {
+		throw new TypeError("Cannot serialize a circular structure");
+	}
+	seen.add(value);
+	try {
+		return encodeObject(value, seen);
+	} finally {
+		seen.delete(value);
+	}
+}
+
+function encodeObject(value: object, seen: Set<object>): unknown {
+	for (const codec of codecs.values()) {
+		if (codec.test(value)) {
+			return {
+				$type: codec.name,
+				value: encodeValue(codec.encode(value), seen),
+			};
+		}
+	}
+	if (Array.isArray(value)) {
+		return Array.from(value, (item) => encodeValue(item, seen));
+	}
+	if (isBranded(value)) {
+		return {
+			$type: "Result",
+			kind: requireKind(value),
+			type: value.type,
+			data: encodeValue(value.data, seen),
+			...encodeTrail(value, seen),
+		};
+	}
+	if (value instanceof Date) {
+		return {
+			$type: "Date",
+			value: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+		};
+	}
+	if (value instanceof Map) {
+		return {
+			$type: "Map",
+			value: Array.from(value, ([key, item]) => [
+				encodeValue(key, seen),
+				encodeValue(item, seen),
+			]),
+		};
+	}
+	if (value instanceof Set) {
+		return {
+			$type: "Set",
+			value: Array.from(value, (item) => encodeValue(item, seen)),
+		};
+	}
+	if (value instanceof Error) {
+		return encodeError(value, seen);
+	}
+	const toJSON = (value as { toJSON?: unknown }).toJSON;
+	if (typeof toJSON === "function") {
+		return encodeValue(toJSON.call(value), seen);
+	}
+	const entries = encodeEntries(value, seen);
+	return "$type" in entries ? { $type: "Object", value: entries } : entries;
+}
+
+/**
+ * Encodes the breadcrumbs and cause of a result, leaving out the empty ones.
+ */
+function encodeTrail(
+	result: AnyResult,
+	seen: Set<object>,
+): { context?: unknown[]; cause?: unknown } {
+	const trail: { context?: unknown[]; cause?: unknown } = {};
+	const context = contextOf(result);
+	if (context.length > 0) {
+		trail.context = encodeValue(context, seen) as unknown[];
+	}
+	const cause = causeOf(result);
+	if (cause !== undefined) {
+		trail.cause = encodeValue(cause, seen);
+	}
+	return trail;
+}
+
+/**
+ * Rebuilds a result from its decoded tag and payload and its encoded trail.
+ */
+function decodeResult(
+	type: string,
+	data: unknown,
+	kind: ResultKind,
+	trail: { context?: unknown; cause?: unknown },
+): AnyResult {
+	const context =
+		trail.context === undefined
+			? []
+			: (decodeValue(trail.context) as ResultBreadcrumb[]);
+	const cause =
+		trail.cause === undefined
+			? undefined
+			: (decodeValue(trail.cause) as AnyResult);
+	return withTrail({ type, data }, kind, context, cause);
+}
+
+function encodeEntries(
+	value: object,
+	seen: Set<object>,
+	skip?: ReadonlySet<string>,
+): Record<string, unknown> {
+	const encoded: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(value)) {
+		const encodedItem = encodeValue(item, seen);
+		if (encodedItem !== undefined && !skip?.has(key)) {
+			encoded[key] = encodedItem;
+		}
+	}
+	return encoded;
+}
+
+const ERROR_FIELDS: ReadonlySet<string> = new Set([
+	"name",
+	"message",
+	"stack",
+	"cause",
+]);
+
+function encodeError(error: Error, seen: Set<object>): unknown {
+	const encoded: Record<string, unknown> = {
+		$type: "Error",
+		name: error.name,
+		message: error.message,
+	};
+	if (error.stack !== undefined) {
+		encoded.stack = error.stack;
+	}
+	if ("cause" in error) {
+		encoded.cause = encodeValue(error.cause, seen);
+	}
+	const props = encodeEntries(error, seen, ERROR_FIELDS);
+	if (Object.keys(props).length > 0) {
+		encoded.props = props;
+	}
+	return encoded;
+}
+
+/**
+ * Reverses `encodeValue`, rebuilding the values behind `{ "$type": ... }` objects.
+ */
+function decodeValue(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(decodeValue);
+	}
+	if (typeof value !== "object" || value === null) {
+		return value;
+	}
+	const record = value as Record<string, unknown>;
+	if (!("$type" in record)) {
+		return defineEntries({}, record);
+	}
+	const encoded = record.value;
+	switch (record.$type) {
+		case "undefined":
+			return undefined;
+		case "Number":
+			return Number(encoded);
+		case "BigInt":
+			return BigInt(encoded as string);
+		case "Date":
+			return new Date(encoded === null ? Number.NaN : (encoded as string));
+		case "Map":
+			return new Map(
+				(encoded as [unknown, unknown][]).map(([key, item]) => [
+					decodeValue(key),
+					decodeValue(item),
+				]),
+			);
+		case "Set":
+			return new Set((encoded as unknown[]).map(decodeValue));
+		case "Error":
+			return decodeError(record);
+		case "Result":
+			return decodeResult(
+				String(record.type),
+				decodeValue(record.data),
+				record.kind === "ok" ? "ok" : "err",
+				record,
+			);
+		case "Object":
+			return defineEntries({}, encoded as Record<string, unknown>);
+	}
+	const codec = codecs.get(String(record.$type));
+	if (codec === undefined) {
+		throw new TypeError(`No codec registered for "${String(record.$type)}"`);
+	}
+	return codec.decode(decodeValue(encoded));
+}
+
+/**
+ * Copies decoded entries onto `target` as own properties, so keys like
+ * "__proto__" cannot change its prototype.
+ */
+function defineEntries<T extends object>(
+	target: T,
+	record: Record<string, unknown>,
+): T {
+	for (const [key, item] of Object.entries(record)) {
+		Object.defineProperty(target, key, {
+			value: decodeValue(item),
+			enumerable: true,
+			writable: true,
+			configurable: true,
+		});
+	}
+	return target;
+}
+
+function decodeError(record: Record<string, unknown>): Error {
+	const name = String(record.name ?? "Error");
+	const ErrorClass = ERROR_CONSTRUCTORS.get(name) ?? Error;
+	const error = new ErrorClass(String(record.message ?? ""));
+	const hidden = { writable: true, configurable: true };
+	if (error.name !== name) {
+		Object.defineProperty(error, "name", { ...hidden, value: name });
+	}
+	if (record.stack !== undefined) {
+		Object.defineProperty(error, "stack", { ...hidden, value: record.stack });
+	}
+	if ("cause" in record) {
+		Object.defineProperty(error, "cause", {
+			...hidden,
+			value: decodeValue(record.cause),
+		});
+	}
+	if (typeof record.props === "object" && record.props !== null) {
+		defineEntries(error, record.props as Record<string, unknown>);
+	}
+	return error;
+}
+
+function invalidResult(value: unknown, issues: ParseIssue[]): InvalidResult {
+	return err("INVALID_RESULT", { issues, value });
+}
+
+function isStandardSchema(validator: unknown): validator is StandardSchema {
+	return (
+		(typeof validator === "object" || typeof validator === "function") &&
+		validator !== null &&
+		"~standard" in validator
+	);
+}
+
+/**
+ * Runs the validator of a payload, returning a promise only when the validator does.
+ */
+function checkPayload(
+	validator: PayloadValidator,
+	data: unknown,
+	type: string,
+): PayloadCheck | Promise<PayloadCheck> {
+	if (isStandardSchema(validator)) {
+		const outcome = validator["~standard"].validate(data);
+		return isPromiseLike(outcome)
+			? Promise.resolve(outcome).then(toPayloadCheck)
+			: toPayloadCheck(outcome);
+	}
+	const toCheck = (valid: boolean): PayloadCheck =>
+		valid
+			? { value: data }
+			: {
+					issues: [
+						{ message: `Invalid payload for "${type}"`, path: ["data"] },
+					],
+				};
+	const valid = validator(data);
+	return isPromiseLike(valid)
+		? Promise.resolve(valid).then(toCheck)
+		: toCheck(valid);
+}
+
+function toPayloadCheck(outcome: StandardSchemaResult<unknown>): PayloadCheck {
+	if (outcome.issues === undefined) {
+		return { value: outcome.value };
+	}
+	return {
+		issues: outcome.issues.map((issue) => ({
+			message: issue.message,
+			path: [
+				"data",
+				...(issue.path ?? []).map((segment) =>
+					typeof segment === "object" ? segment.key : segment,
+				),
+			],
+		})),
+	};
+}
+
+/**
+ * Checks the `{ type, data }` shape and tag of a value, returning either an
+ * invalid result or the pending payload check.
+ */
+function startParse(
+	value: unknown,
+	schemas: SchemaMap,
+):
+	| InvalidResult
+	| { type: string; check: PayloadCheck | Promise<PayloadCheck> } {
+	if (
+		typeof value !== "object" ||
+		value === null ||
+		typeof (value as AnyResult).type !== "string" ||
+		!("data" in value)
+	) {
+		return invalidResult(value, [
+			{ message: "Expected an object with a string type and data", path: [] },
+		]);
+	}
+	const { type, data } = value as AnyResult;
+	const validator = Object.prototype.hasOwnProperty.call(schemas, type)
+		? schemas[type as keyof SchemaMap]
+		: undefined;
+	const kind = kindOf({ type, data });
+	if (validator === undefined || kind === undefined) {
+		return invalidResult(value, [
+			{ message: `Unknown result tag "${type}"`, path: ["type"] },
+		]);
+	}
+	return { type, check: checkPayload(validator, data, type) };
+}
+
+function finishParse(
+	value: unknown,
+	type: string,
+	check: PayloadCheck,
+): AnyResult {
+	if ("issues" in check) {
+		return invalidResult(value, check.issues);
+	}
+	return brand(
+		{ type, data: check.value },
+		requireKind({ type, data: check.value }),
+	);
+}
+
+const globalTimer: ResultTimer = {
+	setTimeout: (callback, ms) => setTimeout(callback, ms),
+	clearTimeout: (handle) =>
+		clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Waits for `ms` milliseconds. Resolves to false, without waiting any
+ * longer, when the signal is aborted.
+ */
+function sleep(
+	ms: number,
+	timer: ResultTimer,
+	signal?: AbortSignal,
+): Promise<boolean> {
+	if (signal?.aborted) {
+		return Promise.resolve(false);
+	}
+	return new Promise((resolve) => {
+		const onAbort = () => {
+			timer.clearTimeout(handle);
+			resolve(false);
+		};
+		const handle = timer.setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function aborted(signal: AbortSignal): AbortedResult {
+	return err("ABORTED", { reason: signal.reason });
+}
+
+/**
+ * Settles with the outcome of `work`, unless `start` calls `stop` first.
+ * The function returned by `start` releases its timers and listeners, and
+ * runs once the race is decided either way.
+ */
+function raceWork<R, E>(
+	work: PromiseLike<R>,
+	start: (stop: (result: E) => void) => () => void,
+): Promise<R | E> {
+	return new Promise((resolve, reject) => {
+		let cleanup = () => {};
+		const settle =
+			<T>(done: (value: T) => void) =>
+			(value: T) => {
+				cleanup();
+				done(value);
+			};
+		cleanup = start(settle(resolve));
+		work.then(settle(resolve), settle(reject));
+	});
+}
+
+/**
+ * Starts `work` with the signal. A synchronous throw becomes a rejection,
+ * like it would in an async function.
+ */
+function startWork<R>(
+	work: CancellableWork<R>,
+	signal: AbortSignal,
+): Promise<R> {
+	return new Promise((resolve) =>
+		resolve(typeof work === "function" ? work(signal) : work),
+	);
+}
+
+function isReadableStream<R>(
+	source: ResultSource<R>,
+): source is ReadableStream<R> {
+	return typeof (source as ReadableStream<R>).getReader === "function";
+}
+
+function isResultSource(value: unknown): value is ResultSource<AnyResult> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		(Symbol.iterator in value ||
+			Symbol.asyncIterator in value ||
+			isReadableStream(value as ResultSource<AnyResult>))
+	);
+}
+
+/**
+ * Iterates any result source one item at a time. A readable stream is
+ * cancelled when the iteration stops before the stream has ended.
+ */
+async function* iterate<R>(
+	source: ResultSource<R>,
+): AsyncGenerator<R, void, undefined> {
+	if (!isReadableStream(source)) {
+		yield* source;
+		return;
+	}
+	const reader = source.getReader();
+	let open = true;
+	try {
+		for (;;) {
+			const step = await reader.read();
+			if (step.done) {
+				open = false;
+				return;
+			}
+			yield step.value;
+		}
+	} catch (error) {
+		open = false;
+		throw error;
+	} finally {
+		if (open) {
+			await reader.cancel();
+		}
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Applies `fn` to every result of the source, keeping their order. At most
+ * `concurrency` results are pulled from the source and not yet yielded, and the
+ * next result is only pulled while there is room, so slow consumers slow the source down.
+ */
+async function* mapConcurrently(
+	source: ResultSource<AnyResult>,
+	fn: (result: AnyResult) => AnyResult | PromiseLike<AnyResult>,
+	concurrency: number,
+): AsyncGenerator<AnyResult, void, undefined> {
+	const iterator = iterate(source);
+	const limit = Math.max(1, concurrency);
+	const pending: Promise<AnyResult>[] = [];
+	let pull: Promise<IteratorResult<AnyResult, void>> | undefined;
+	let exhausted = false;
+	try {
+		for (;;) {
+			if (!exhausted && pull === undefined && pending.length < limit) {
+				pull = iterator.next();
+			}
+			const head = pending[0];
+			// Yields the oldest result as soon as it settles, unless the next pull finishes first
+			const pulled =
+				pull !== undefined &&
+				(head === undefined ||
+					(await Promise.race([
+						head.then(
+							() => false,
+							() => false,
+						),
+						pull.then(() => true),
+					])));
+			if (pulled) {
+				const step = await (pull as Promise<IteratorResult<AnyResult, void>>);
+				pull = undefined;
+				if (step.done) {
+					exhausted = true;
+				} else {
+					const mapped = Promise.resolve(step.value).then(fn);
+					// Rejections are rethrown once it is this result's turn
+					mapped.catch(() => {});
+					pending.push(mapped);
+				}
+			} else if (head === undefined) {
+				return;
+			} else {
+				pending.shift();
+				yield await head;
+			}
+		}
+	} finally {
+		// A pending pull is left to settle rather than blocking the consumer
+		if (pull === undefined) {
+			await iterator.return();
+		} else {
+			iterator.return().catch(() => {});
+		}
+	}
+}
+
+/**
+ * Collects the payloads of every field of a validation shape, or the errors
+ * of every failed field under its path when at least one field failed.
+ */
+function validateShape(
+	shape: ValidationShape,
+	path: string,
+	errors: Record<string, AnyResult[]>,
+): unknown {
+	if (Array.isArray(shape)) {
+		return shape.map((field, index) =>
+			validateShape(field, `${path}[${index}]`, errors),
+		);
+	}
+	if (typeof shape !== "object" || shape === null) {
+		throw new TypeError(`Expected a result or a group of results at "${path}"`);
+	}
+	// Results built by hand, copied or parsed from JSON have no brand, so look at the tag
+	const leaf = shape as Partial<AnyResult>;
+	const kind =
+		typeof leaf.type === "string" && "data" in leaf
+			? kindOf(leaf as AnyResult)
+			: undefined;
+	if (kind !== undefined) {
+		if (kind === "err") {
+			errors[path] ??= [];
+			errors[path].push(leaf as AnyResult);
+		}
+		return leaf.data;
+	}
+	const value: Record<string, unknown> = {};
+	for (const [field, nested] of Object.entries(
+		shape as { readonly [field: string]: ValidationShape },
+	)) {
+		value[field] = validateShape(
+			nested,
+			path === "" ? field : `${path}.${field}`,
+			errors,
+		);
+	}
+	return value;
+}
+
+const ANSI_CODES: Record<AnsiStyle, [number, number]> = {
+	bold: [1, 22],
+	red: [31, 39],
+	green: [32, 39],
+	yellow: [33, 39],
+	grey: [90, 39],
+	cyan: [36, 39],
+};
+
+function paint(text: string, style: AnsiStyle, colors: boolean): string {
+	const [open, close] = ANSI_CODES[style];
+	return colors ? `\u001b[${open}m${text}\u001b[${close}m` : text;
+}
+
+function renderTag(result: AnyResult, colors: boolean): string {
+	return paint(
+		paint(result.type, isErr(result) ? "red" : "green", colors),
+		"bold",
+		colors,
+	);
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Renders a payload for humans, spreading objects over several lines like
+ * `util.inspect` does, without depending on Node.
+ */
+function renderValue(
+	value: unknown,
+	state: RenderState,
+	level: number,
+): string {
+	switch (typeof value) {
+		case "string":
+			return paint(JSON.stringify(value), "green", state.colors);
+		case "number":
+		case "boolean":
+			return paint(String(value), "yellow", state.colors);
+		case "bigint":
+			return paint(`${value}n`, "yellow", state.colors);
+		case "symbol":
+			return paint(value.toString(), "green", state.colors);
+		case "function":
+			return paint(
+				`[Function ${value.name || "(anonymous)"}]`,
+				"cyan",
+				state.colors,
+			);
+		case "undefined":
+			return paint("undefined", "grey", state.colors);
+	}
+	if (value === null) {
+		return paint("null", "grey", state.colors);
+	}
+	if (state.seen.has(value as object)) {
+		return paint("[Circular]", "cyan", state.colors);
+	}
+	if (value instanceof Date) {
+		return paint(
+			Number.isNaN(value.getTime()) ? "Invalid Date" : value.toISOString(),
+			"cyan",
+			state.colors,
+		);
+	}
+	state.seen.add(value as object);
+	try {
+		if (isResult(value)) {
+			return `${renderTag(value, state.colors)} ${renderValue(value.data, state, level + 1)}`;
+		}
+		if (value instanceof Error) {
+			return renderError(value, state, level);
+		}
+		return renderObject(value as object, state, level);
+	} finally {
+		state.seen.delete(value as object);
+	}
+}
+
+function renderObject(
+	value: object,
+	state: RenderState,
+	level: number,
+): string {
+	const item = (entry: unknown) => renderValue(entry, state, level + 1);
+	let label = "Array";
+	let open = "[";
+	let size: number;
+	let render: () => string[];
+	if (Array.isArray(value)) {
+		size = value.length;
+		render = () => value.map(item);
+	} else if (value instanceof Map) {
+		label = "Map";
+		open = `Map(${value.size}) {`;
+		size = value.size;
+		render = () =>
+			[...value].map(([key, entry]) => `${item(key)} => ${item(entry)}`);
+	} else if (value instanceof Set) {
+		label = "Set";
+		open = `Set(${value.size}) {`;
+		size = value.size;
+		render = () => [...value].map(item);
+	} else {
+		const name = Object.getPrototypeOf(value)?.constructor?.name;
+		label = typeof name === "string" && name !== "" ? name : "Object";
+		open = label === "Object" ? "{" : `${label} {`;
+		size = Object.keys(value).length;
+		render = () =>
+			Object.entries(value).map(
+				([key, entry]) =>
+					`${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${item(entry)}`,
+			);
+	}
+	const close = open === "[" ? "]" : "}";
+	if (size === 0) {
+		return `${open}${close}`;
+	}
+	if (level > state.depth) {
+		return paint(`[${label}]`, "cyan", state.colors);
+	}
+	const indent = "  ".repeat(level);
+	return `${open}\n${render()
+		.map((entry) => `${indent}  ${entry}`)
+		.join(",\n")}\n${indent}${close}`;
+}
+
+/**
+ * Renders an error with its stack and, below it, its cause.
+ */
+function renderError(error: Error, state: RenderState, level: number): string {
+	const summary = `${error.name}: ${error.message}`;
+	// V8 stacks start with the summary, other engines only list the frames
+	const stack =
+		error.stack === undefined
+			? summary
+			: error.stack.startsWith(summary)
+				? error.stack
+				: `${summary}\n${error.stack}`;
+	const indent = "  ".repeat(level);
+	const [first, ...frames] = stack.split("\n");
+	const lines = [
+		first,
+		...frames.map((frame) => paint(`${indent}${frame}`, "grey", state.colors)),
+	];
+	if ("cause" in error && error.cause !== undefined) {
+		lines.push(
+			`${indent}  [cause]: ${renderValue(error.cause, state, level + 1)}`,
+		);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Splits a redaction path such as "users[*].email" into its keys.
+ */
+function parsePath(path: string): string[] {
+	return path
+		.replace(/\[([^\]]*)\]/g, ".$1")
+		.split(".")
+		.filter((key) => key !== "");
+}
+
+function isRedacted(path: readonly string[], patterns: string[][]): boolean {
+	return patterns.some(
+		(pattern) =>
+			pattern.length === path.length &&
+			pattern.every((key, index) => key === "*" || key === path[index]),
+	);
+}
+
+/**
+ * Converts a payload to plain values that JSON loggers print well, replacing
+ * redacted fields. Errors keep their message, stack and cause.
+ */
+function toLogValue(
+	value: unknown,
+	path: string[],
+	options: { redact: string[][]; censor: unknown; seen: Set<object> },
+): unknown {
+	if (isRedacted(path, options.redact)) {
+		return options.censor;
+	}
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (typeof value === "function" || typeof value === "symbol") {
+		return undefined;
+	}
+	if (typeof value !== "object" || value === null) {
+		return value;
+	}
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime()) ? null : value.toISOString();
+	}
+	if (options.seen.has(value)) {
+		return "[Circular]";
+	}
+	options.seen.add(value);
+	try {
+		const entry = (key: string, item: unknown) =>
+			[key, toLogValue(item, [...path, key], options)] as const;
+		if (Array.isArray(value) || value instanceof Set) {
+			return [...value].map((item, index) => entry(String(index), item)[1]);
+		}
+		if (value instanceof Map) {
+			return Object.fromEntries(
+				[...value].map(([key, item]) => entry(String(key), item)),
+			);
+		}
+		if (isResult(value)) {
+			return { type: value.type, data: entry("data", value.data)[1] };
+		}
+		if (value instanceof Error) {
+			return Object.fromEntries(
+				Object.entries({
+					type: value.name,
+					message: value.message,
+					stack: value.stack,
+					// Own properties such as `code`
+					...(value as object),
+					cause: "cause" in value ? value.cause : undefined,
+				})
+					.filter(([, item]) => item !== undefined)
+					.map(([key, item]) => entry(key, item)),
+			);
+		}
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => entry(key, item)),
+		);
+	} finally {
+		options.seen.delete(value);
+	}
+}
+
+/**
+ * Finds the descriptor of a property on an object or its prototype chain,
+ * along with the object that defines it.
+ */
+function findProperty(
+	object: object,
+	key: PropertyKey,
+): [PropertyDescriptor, object] | undefined {
+	for (
+		let owner: object | null = object;
+		owner !== null;
+		owner = Object.getPrototypeOf(owner)
+	) {
+		const descriptor = Object.getOwnPropertyDescriptor(owner, key);
+		if (descriptor !== undefined) {
+			return [descriptor, owner];
+		}
+	}
+	return undefined;
+}
+
+// --- Function Implementations ---
+
+/**
+ * Changes how `ok` and `err` validate their tags at runtime.
+ * Returns the previous configuration so it can be restored later.
+ *
+ * @example
+ * ```typescript
+ * // Fail fast in development and tests
+ * Result.configure({ tagValidation: "strict" });
+ *
+ * // Skip the checks in production, or route warnings to your logger
+ * Result.configure({ tagValidation: process.env.NODE_ENV === "production" ? "off" : "warn", logger: log.warn });
+ * ```
+ */
+function configure(options: Partial<ResultConfig>): ResultConfig {
+	const previous = { ...config };
+	Object.assign(config, options);
+	refreshHooks();
+	return previous;
+}
+
+/**
+ * Checks whether a value is a result created by `Result.ok` or `Result.err`.
+ * Plain `{ type, data }` objects (e.g. from a JSON body) are rejected.
+ *
+ * @example
+ * ```typescript
+ * if (Result.isResult(value)) {
+ *   console.log(value.type);
+ * }
+ * ```
+ */
+function isResult(value: unknown): value is AnyResult {
+	return isBranded(value);
+}
+
+/**
+ * Exhaustively matches a result against a handler per tag. Omitting a tag or
+ * passing an unknown one is a compile error. The "SUCCESS_*" and "ERROR_*" keys
+ * handle every remaining tag of their family, and "_" handles anything left.
+ *
+ * @example
+ * ```typescript
+ * const message = Result.match(userResult, {
+ *   SUCCESS_USER_FOUND: (user) => `Hello ${user.name}`,
+ *   ERROR_NOT_FOUND: () => "No such user",
+ *   "ERROR_*": (error) => error.message,
+ * });
+ * ```
+ */
+function match<R extends AnyResult, H extends MatchHandlers<R>>(
+	result: R,
+	handlers: ExhaustiveHandlers<R, H>,
+): MatchReturn<H> {
+	const handler = findHandler(result, handlers as MatchHandlers<R>);
+	return handler(result.data as never, result as never) as MatchReturn<H>;
+}
+
+/**
+ * Like `match`, but accepts a promise of a result and awaits async handlers.
+ *
+ * @example
+ * ```typescript
+ * const response = await Result.matchAsync(getUser(123), {
+ *   SUCCESS_USER_FOUND: async (user) => render(user),
+ *   "ERROR_*": (error) => renderError(error.message),
+ * });
+ * ```
+ */
+async function matchAsync<R extends AnyResult, H extends MatchHandlers<R>>(
+	result: R | PromiseLike<R>,
+	handlers: ExhaustiveHandlers<R, H>,
+): Promise<Awaited<MatchReturn<H>>> {
+	return (await match(await result, handlers)) as Awaited<MatchReturn<H>>;
+}
+
+/**
+ * Looks up the most specific "PATH_*" handler at or above a tag, e.g. "ERROR_DB_*"
+ * before "ERROR_*" for "ERROR_DB_TIMEOUT" and "ERROR_DB".
+ */
+function findHierarchyHandler<H>(
+	type: string,
+	table: Record<string, H | undefined>,
+	separator: string,
+): H | undefined {
+	for (
+		let end = type.length;
+		end > 0;
+		end = type.lastIndexOf(separator, end - 1)
+	) {
+		const handler = table[`${type.slice(0, end)}_*`];
+		if (handler !== undefined) {
+			return handler;
+		}
+	}
+	return undefined;
+}
+
+function findHandler<R extends AnyResult>(
+	result: R,
+	handlers: object,
+	shape: ResultShape = DEFAULT_SHAPE,
+): (data: unknown, result: R) => unknown {
+	const table = handlers as Record<
+		string,
+		((data: unknown, result: R) => unknown) | undefined
+	>;
+	const kind = kindOf(result, shape);
+	const handler =
+		table[result.type] ??
+		findHierarchyHandler(result.type, table, shape.separator) ??
+		(kind === "ok" ? table["SUCCESS_*"] : undefined) ??
+		(kind === "err" ? table["ERROR_*"] : undefined) ??
+		table._;
+	if (handler === undefined) {
+		throw new TypeError(`No handler for result type "${result.type}"`);
+	}
+	return handler;
+}
+
+// Overloads for the 'map' function
+/**
+ * Transforms the payload of a success result, leaving its tag and any error untouched.
+ * Can be called data-first or curried for use in pipelines.
+ *
+ * @example
+ * ```typescript
+ * const doubled = Result.map(parseNumber("21"), (parsed) => parsed.value * 2);
+ * // Type: SuccessResultType<"PARSED", number> | ErrorResultType<"INVALID_NUMBER", { input: string }>
+ *
+ * const results = inputs.map(parseNumber).map(Result.map((parsed: { value: number }) => parsed.value));
+ * ```
+ */
+function map<R extends AnyResult, U>(
+	result: R,
+	fn: (data: SuccessOf<R>["data"]) => U,
+): MapOk<R, U>;
+function map<D, U>(
+	fn: (data: D) => U,
+): <R extends ResultWithOk<D>>(result: R) => MapOk<R, U>;
+function map(
+	resultOrFn: AnyResult | ((data: unknown) => unknown),
+	fn?: (data: unknown) => unknown,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => map(result, resultOrFn);
+	}
+	return isOk(resultOrFn)
+		? withData(resultOrFn, (fn as (data: unknown) => unknown)(resultOrFn.data))
+		: resultOrFn;
+}
+
+// Overloads for the 'mapErr' function
+/**
+ * Transforms the payload of an error result, leaving its tag and any success untouched.
+ * Can be called data-first or curried for use in pipelines.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.mapErr(parseNumber("abc"), (error) => `Cannot parse ${error.input}`);
+ * // Type: SuccessResultType<"PARSED", { value: number }> | ErrorResultType<"INVALID_NUMBER", string>
+ * ```
+ */
+function mapErr<R extends AnyResult, U>(
+	result: R,
+	fn: (data: ErrorOf<R>["data"]) => U,
+): MapErr<R, U>;
+function mapErr<D, U>(
+	fn: (data: D) => U,
+): <R extends ResultWithErr<D>>(result: R) => MapErr<R, U>;
+function mapErr(
+	resultOrFn: AnyResult | ((data: unknown) => unknown),
+	fn?: (data: unknown) => unknown,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => mapErr(result, resultOrFn);
+	}
+	return isErr(resultOrFn)
+		? withData(resultOrFn, (fn as (data: unknown) => unknown)(resultOrFn.data))
+		: resultOrFn;
+}
+
+// Overloads for the 'andThen' function
+/**
+ * Chains another fallible step onto a success result. Errors are propagated as-is,
+ * so the output is the union of the input's error tags and the tags returned by `fn`.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.andThen(parseNumber(input), (parsed) =>
+ *   parsed.value > 0 ? Result.ok("POSITIVE", parsed.value) : Result.err("NOT_POSITIVE", parsed),
+ * );
+ * // Type: ErrorResultType<"INVALID_NUMBER", ...> | SuccessResultType<"POSITIVE", number> | ErrorResultType<"NOT_POSITIVE", ...>
+ * ```
+ */
+function andThen<R extends AnyResult, R2 extends AnyResult>(
+	result: R,
+	fn: (data: SuccessOf<R>["data"]) => R2,
+): ErrorOf<R> | R2;
+function andThen<D, R2 extends AnyResult>(
+	fn: (data: D) => R2,
+): <R extends ResultWithOk<D>>(result: R) => ErrorOf<R> | R2;
+function andThen(
+	resultOrFn: AnyResult | ((data: unknown) => AnyResult),
+	fn?: (data: unknown) => AnyResult,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => andThen(result, resultOrFn);
+	}
+	return isOk(resultOrFn)
+		? (fn as (data: unknown) => AnyResult)(resultOrFn.data)
+		: resultOrFn;
+}
+
+// Overloads for the 'orElse' function
+/**
+ * Recovers from an error result by running another fallible step. Successes are passed
+ * through as-is, so the output is the union of the input's success tags and the tags returned by `fn`.
+ *
+ * @example
+ * ```typescript
+ * const user = Result.orElse(await getUser(id), () => Result.ok("GUEST", guestUser));
+ * // Type: SuccessResultType<"USER_FOUND", User> | SuccessResultType<"GUEST", User>
+ * ```
+ */
+function orElse<R extends AnyResult, R2 extends AnyResult>(
+	result: R,
+	fn: (data: ErrorOf<R>["data"]) => R2,
+): SuccessOf<R> | R2;
+function orElse<D, R2 extends AnyResult>(
+	fn: (data: D) => R2,
+): <R extends ResultWithErr<D>>(result: R) => SuccessOf<R> | R2;
+function orElse(
+	resultOrFn: AnyResult | ((data: unknown) => AnyResult),
+	fn?: (data: unknown) => AnyResult,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => orElse(result, resultOrFn);
+	}
+	return isErr(resultOrFn)
+		? (fn as (data: unknown) => AnyResult)(resultOrFn.data)
+		: resultOrFn;
+}
+
+// Overloads for the 'tap' function
+/**
+ * Runs a side effect with the payload of a success result and returns the result unchanged.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.tap(await getUser(id), (user) => logger.info("Loaded user", user.id));
+ * ```
+ */
+function tap<R extends AnyResult>(
+	result: R,
+	fn: (data: SuccessOf<R>["data"]) => void,
+): R;
+function tap<D>(
+	fn: (data: D) => void,
+): <R extends ResultWithOk<D>>(result: R) => R;
+function tap(
+	resultOrFn: AnyResult | ((data: unknown) => void),
+	fn?: (data: unknown) => void,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => tap(result, resultOrFn);
+	}
+	if (isOk(resultOrFn)) {
+		(fn as (data: unknown) => void)(resultOrFn.data);
+	}
+	return resultOrFn;
+}
+
+// Overloads for the 'tapErr' function
+/**
+ * Runs a side effect with the payload of an error result and returns the result unchanged.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.tapErr(await getUser(id), (error) => logger.warn(error.message));
+ * ```
+ */
+function tapErr<R extends AnyResult>(
+	result: R,
+	fn: (data: ErrorOf<R>["data"]) => void,
+): R;
+function tapErr<D>(
+	fn: (data: D) => void,
+): <R extends ResultWithErr<D>>(result: R) => R;
+function tapErr(
+	resultOrFn: AnyResult | ((data: unknown) => void),
+	fn?: (data: unknown) => void,
+): unknown {
+	if (typeof resultOrFn === "function") {
+		return (result: AnyResult) => tapErr(result, resultOrFn);
+	}
+	if (isErr(resultOrFn)) {
+		(fn as (data: unknown) => void)(resultOrFn.data);
+	}
+	return resultOrFn;
+}
+
+/**
+ * Runs a generator that unwraps results with `yield*`. Success payloads are handed back,
+ * while the first error result stops the generator and becomes the return value.
+ * The return type is the union of every yielded error and the final result.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.gen(function* ($) {
+ *   const parsed = yield* $(parseNumber(input));
+ *   const user = yield* $(validateUser({ id: parsed.value }));
+ *   return Result.ok("WORKFLOW_COMPLETE", user);
+ * });
+ * // Type: ErrorResultType<"INVALID_NUMBER", ...> | ErrorResultType<"INVALID", ...> | SuccessResultType<"WORKFLOW_COMPLETE", ...>
+ * ```
+ */
+function gen<Y extends AnyResult, R extends AnyResult>(
+	body: (unwrap: Unwrap) => Generator<Y, R, unknown>,
+): Y | R {
+	const iterator = body(unwrapResult as Unwrap);
+	const step = iterator.next();
+	if (!step.done) {
+		// Run any pending `finally` blocks before short-circuiting
+		iterator.return(undefined as never);
+	}
+	return step.value;
+}
+
+/**
+ * Like `gen`, but for async generators. The unwrap helper also accepts a promise of a result.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.genAsync(async function* ($) {
+ *   const user = yield* $(getUser(id));
+ *   return Result.ok("WORKFLOW_COMPLETE", user);
+ * });
+ * ```
+ */
+async function genAsync<Y extends AnyResult, R extends AnyResult>(
+	body: (unwrap: UnwrapAsync) => AsyncGenerator<Y, R, unknown>,
+): Promise<Y | R> {
+	const iterator = body(unwrapResultAsync as UnwrapAsync);
+	const step = await iterator.next();
+	if (!step.done) {
+		// Run any pending `finally` blocks before short-circuiting
+		await iterator.return(undefined as never);
+	}
+	return step.value;
+}
+
+// Overloads for the 'try' function
+/**
+ * Calls a function that may throw and captures the outcome as a result.
+ * Returned values become `ok(value)`, and thrown values go through `classify`
+ * (or become `err(error)` when no classifier is given). A function returning a
+ * promise produces a promise of a result, where rejections are captured the same way.
+ *
+ * @example
+ * ```typescript
+ * const parsed = Result.try(
+ *   () => JSON.parse(body),
+ *   (error) => error instanceof SyntaxError ? Result.err("INVALID_JSON", error) : Result.err(error),
+ * );
+ * // Type: DefaultSuccessResultType<any> | ErrorResultType<"INVALID_JSON", SyntaxError> | DefaultErrorResultType<unknown>
+ * ```
+ */
+function tryCatch<T>(
+	fn: () => Promise<T>,
+): Promise<DefaultSuccessResultType<T> | DefaultErrorResultType<unknown>>;
+function tryCatch<T, E extends AnyErrorResult>(
+	fn: () => Promise<T>,
+	classify: Classifier<E>,
+): Promise<DefaultSuccessResultType<T> | E>;
+function tryCatch<T>(
+	fn: () => T,
+): DefaultSuccessResultType<T> | DefaultErrorResultType<unknown>;
+function tryCatch<T, E extends AnyErrorResult>(
+	fn: () => T,
+	classify: Classifier<E>,
+): DefaultSuccessResultType<T> | E;
+// Implementation of 'try'
+function tryCatch(
+	fn: () => unknown,
+	classify: Classifier<AnyErrorResult> = err,
+): AnyResult | Promise<AnyResult> {
+	let value: unknown;
+	try {
+		value = fn();
+	} catch (error) {
+		return classify(error);
+	}
+	if (isPromiseLike(value)) {
+		return fromPromise(value, classify);
+	}
+	return ok(value);
+}
+
+// Overloads for the 'fromPromise' function
+/**
+ * Awaits a promise and captures the outcome as a result.
+ * Rejections go through `classify` (or become `err(error)` when no classifier is given).
+ *
+ * @example
+ * ```typescript
+ * const response = await Result.fromPromise(fetch(url), (error) => Result.err("NETWORK_ERROR", { message: String(error) }));
+ * // Type: DefaultSuccessResultType<Response> | ErrorResultType<"NETWORK_ERROR", { message: string }>
+ * ```
+ */
+function fromPromise<T>(
+	promise: PromiseLike<T>,
+): Promise<DefaultSuccessResultType<T> | DefaultErrorResultType<unknown>>;
+function fromPromise<T, E extends AnyErrorResult>(
+	promise: PromiseLike<T>,
+	classify: Classifier<E>,
+): Promise<DefaultSuccessResultType<T> | E>;
+// Implementation of 'fromPromise'
+async function fromPromise(
+	promise: PromiseLike<unknown>,
+	classify: Classifier<AnyErrorResult> = err,
+): Promise<AnyResult> {
+	try {
+		return ok(await promise);
+	} catch (error) {
+		return classify(error);
+	}
+}
+
+// Overloads for the 'wrap' function
+/**
+ * Turns a throwing function into one that returns results, using the same rules as `Result.try`.
+ *
+ * @example
+ * ```typescript
+ * const safeParse = Result.wrap(JSON.parse);
+ * const result = safeParse('{"id":1}'); // DefaultSuccessResultType<any> | DefaultErrorResultType<unknown>
+ * ```
+ */
+function wrap<A extends unknown[], T>(
+	fn: (...args: A) => Promise<T>,
+): (
+	...args: A
+) => Promise<DefaultSuccessResultType<T> | DefaultErrorResultType<unknown>>;
+function wrap<A extends unknown[], T, E extends AnyErrorResult>(
+	fn: (...args: A) => Promise<T>,
+	classify: Classifier<E>,
+): (...args: A) => Promise<DefaultSuccessResultType<T> | E>;
+function wrap<A extends unknown[], T>(
+	fn: (...args: A) => T,
+): (
+	...args: A
+) => DefaultSuccessResultType<T> | DefaultErrorResultType<unknown>;
+function wrap<A extends unknown[], T, E extends AnyErrorResult>(
+	fn: (...args: A) => T,
+	classify: Classifier<E>,
+): (...args: A) => DefaultSuccessResultType<T> | E;
+// Implementation of 'wrap'
+function wrap(
+	fn: (...args: unknown[]) => unknown,
+	classify: Classifier<AnyErrorResult> = err,
+): (...args: unknown[]) => AnyResult | Promise<AnyResult> {
+	return function (this: unknown, ...args: unknown[]) {
+		return tryCatch(() => fn.apply(this, args), classify);
+	};
+}
+
+/**
+ * Wraps an object, such as an SDK client or a repository instance, so that its
+ * methods return results instead of throwing, using the same rules as `Result.try`.
+ * Async methods return promises of results. Each method can have its own success
+ * tag and classifier. Getters, other properties and symbol-keyed or built-in
+ * methods (like `toString`) are passed through unchanged, and methods are called
+ * on the original object, so private fields keep working.
+ *
+ * @example
+ * ```typescript
+ * const users = Result.resultify(
+ *   new UserRepository(db),
+ *   (error) => Result.err("DB_ERROR", { message: String(error) }),
+ *   {
+ *     findById: {
+ *       tag: "USER_FOUND",
+ *       classify: (error) => error instanceof NotFoundError ? Result.err("NOT_FOUND", error.id) : Result.err("DB_ERROR", { message: String(error) }),
+ *     },
+ *   },
+ * );
+ *
+ * const user = await users.findById(42);
+ * // Type: SuccessResultType<"USER_FOUND", User> | ErrorResultType<"NOT_FOUND", number> | ErrorResultType<"DB_ERROR", { message: string }>
+ * const count = await users.count(); // DefaultSuccessResultType<number> | ErrorResultType<"DB_ERROR", { message: string }>
+ * ```
+ */
+function resultify<
+	O extends object,
+	const M extends MethodOverrides<O>,
+	E extends AnyErrorResult = DefaultErrorResultType<unknown>,
+>(target: O, classify?: Classifier<E>, overrides?: M): Resultified<O, E, M> {
+	const wrapped = new Map<PropertyKey, [unknown, unknown]>();
+	return new Proxy(target, {
+		get(object, key) {
+			const value = Reflect.get(object, key);
+			const property = findProperty(object, key);
+			if (
+				typeof value !== "function" ||
+				typeof key === "symbol" ||
+				key === "constructor" ||
+				property === undefined ||
+				property[0].get !== undefined ||
+				property[1] === Object.prototype
+			) {
+				return value;
+			}
+			const cached = wrapped.get(key);
+			if (cached?.[0] === value) {
+				return cached[1];
+			}
+			const override = (
+				overrides as Record<string, MethodOverride> | undefined
+			)?.[key];
+			const classifyError = override?.classify ?? classify ?? err;
+			const method = (...args: unknown[]): AnyResult | Promise<AnyResult> => {
+				const succeed = (data: unknown) => taggedOk(override?.tag, data);
+				let returned: unknown;
+				try {
+					returned = value.apply(object, args);
+				} catch (error) {
+					return classifyError(error);
+				}
+				return isPromiseLike(returned)
+					? Promise.resolve(returned).then(succeed, classifyError)
+					: succeed(returned);
+			};
+			wrapped.set(key, [value, method]);
+			return method;
+		},
+		set(object, key, value) {
+			return Reflect.set(object, key, value);
+		},
+	}) as unknown as Resultified<O, E, M>;
+}
+
+/**
+ * Combines a tuple, array or record of results into a single result.
+ * The first error wins; otherwise the success payloads are collected in the same shape.
+ *
+ * @example
+ * ```typescript
+ * const loaded = Result.all([getUser(id), getSettings(id)], { tag: "ALL_LOADED" });
+ * // Type: SuccessResultType<"ALL_LOADED", [User, Settings]> | ErrorResultType<"NOT_FOUND", ...>
+ *
+ * const byKey = Result.all({ user: getUser(id), settings: getSettings(id) });
+ * // Type: DefaultSuccessResultType<{ user: User; settings: Settings }> | ErrorResultType<"NOT_FOUND", ...>
+ * ```
+ */
+function all<C extends ResultCollection, T extends Uppercase<string> = never>(
+	results: C,
+	options: CollectOptions<T> = {},
+): AllReturn<C, T> {
+	const [keys, values] = toEntries(results);
+	return combineAll(keys, values as AnyResult[], options.tag) as AllReturn<
+		C,
+		T
+	>;
+}
+
+/**
+ * Like `all`, but settles promises of results (or functions returning them)
+ * with an optional concurrency limit. No new task is started after the first error.
+ *
+ * @example
+ * ```typescript
+ * const imported = await Result.allAsync(rows.map((row) => () => importRow(row)), { concurrency: 4 });
+ * ```
+ */
+async function allAsync<
+	C extends ResultCollection<ResultTask>,
+	T extends Uppercase<string> = never,
+>(
+	tasks: C,
+	options: CollectOptions<T> & ConcurrencyOptions = {},
+): Promise<AllReturn<SettledAll<C>, T>> {
+	const [keys, values] = toEntries(tasks);
+	const results = await settleTasks(
+		values,
+		options.concurrency ?? Number.POSITIVE_INFINITY,
+		(result) => !isOk(result),
+	);
+	return combineAll(keys, results, options.tag) as AllReturn<SettledAll<C>, T>;
+}
+
+/**
+ * Combines a tuple, array or record of results, accumulating every error
+ * into a single error result instead of stopping at the first one.
+ *
+ * @example
+ * ```typescript
+ * const imported = Result.collectErrors(rows.map(importRow), { errorTag: "IMPORT_FAILED" });
+ * // Type: DefaultSuccessResultType<Row[]> | ErrorResultType<"IMPORT_FAILED", ErrorResultType<"BAD_ROW", ...>[]>
+ * ```
+ */
+function collectErrors<
+	C extends ResultCollection,
+	T extends Uppercase<string> = never,
+	E extends Uppercase<string> = never,
+>(
+	results: C,
+	options: CollectErrorsOptions<T, E> = {},
+): CollectErrorsReturn<C, T, E> {
+	const [keys, values] = toEntries(results);
+	return combineErrors(
+		keys,
+		values as AnyResult[],
+		options.tag,
+		options.errorTag,
+	) as CollectErrorsReturn<C, T, E>;
+}
+
+/**
+ * Like `collectErrors`, but settles promises of results (or functions returning them)
+ * with an optional concurrency limit.
+ */
+async function collectErrorsAsync<
+	C extends ResultCollection<ResultTask>,
+	T extends Uppercase<string> = never,
+	E extends Uppercase<string> = never,
+>(
+	tasks: C,
+	options: CollectErrorsOptions<T, E> & ConcurrencyOptions = {},
+): Promise<CollectErrorsReturn<SettledAll<C>, T, E>> {
+	const [keys, values] = toEntries(tasks);
+	const results = await settleTasks(
+		values,
+		options.concurrency ?? Number.POSITIVE_INFINITY,
+		() => false,
+	);
+	return combineErrors(
+		keys,
+		results,
+		options.tag,
+		options.errorTag,
+	) as CollectErrorsReturn<SettledAll<C>, T, E>;
+}
+
+/**
+ * Splits results into their success and error members, keeping every tag.
+ *
+ * @example
+ * ```typescript
+ * const [imported, rejected] = Result.partition(rows.map(importRow));
+ * ```
+ */
+function partition<R extends AnyResult>(
+	results: Iterable<R>,
+): PartitionReturn<R> {
+	const successes: SuccessOf<R>[] = [];
+	const failures: ErrorOf<R>[] = [];
+	for (const result of results) {
+		if (isOk(result)) {
+			successes.push(result);
+		} else {
+			failures.push(result as ErrorOf<R>);
+		}
+	}
+	return [successes, failures];
+}
+
+/**
+ * Like `partition`, but settles promises of results (or functions returning them)
+ * with an optional concurrency limit.
+ */
+async function partitionAsync<R extends AnyResult>(
+	tasks: readonly ResultTask<R>[],
+	options: ConcurrencyOptions = {},
+): Promise<PartitionReturn<R>> {
+	const results = await settleTasks(
+		[...tasks],
+		options.concurrency ?? Number.POSITIVE_INFINITY,
+		() => false,
+	);
+	return partition(results as R[]);
+}
+
+/**
+ * Returns the first success of a tuple, array or record of results.
+ * When every result is an error, they are all collected into a single error result.
+ *
+ * @example
+ * ```typescript
+ * const config = Result.any([readLocalConfig(), readRemoteConfig()], { errorTag: "NO_CONFIG" });
+ * ```
+ */
+function any<C extends ResultCollection, E extends Uppercase<string> = never>(
+	results: C,
+	options: AnyOptions<E> = {},
+): AnyReturn<C, E> {
+	const [, values] = toEntries(results);
+	return combineAny(values as AnyResult[], options.errorTag) as AnyReturn<C, E>;
+}
+
+/**
+ * Like `any`, but settles promises of results (or functions returning them)
+ * with an optional concurrency limit. No new task is started after the first success.
+ */
+async function anyAsync<
+	C extends ResultCollection<ResultTask>,
+	E extends Uppercase<string> = never,
+>(
+	tasks: C,
+	options: AnyOptions<E> & ConcurrencyOptions = {},
+): Promise<AnyReturn<SettledAll<C>, E>> {
+	const [, values] = toEntries(tasks);
+	const results = await settleTasks(
+		values,
+		options.concurrency ?? Number.POSITIVE_INFINITY,
+		(result) => isOk(result),
+	);
+	return combineAny(results, options.errorTag) as AnyReturn<SettledAll<C>, E>;
+}
+
+/**
+ * Combines the results of every field of a form or DTO. When all of them succeed,
+ * the result holds their payloads in the same structure. Otherwise, a single
+ * `ERROR_VALIDATION` result lists the error results of every failed field by
+ * path, e.g. `"email"` or `"items[2].qty"`. Fields can be nested in objects and arrays.
+ *
+ * @example
+ * ```typescript
+ * const signup = Result.validate({
+ *   email: checkEmail(input.email),
+ *   age: checkAge(input.age),
+ *   items: input.items.map((item) => ({ qty: checkQuantity(item.qty) })),
+ * });
+ * // Type: DefaultSuccessResultType<{ email: string; age: number; items: { qty: number }[] }>
+ * //     | ErrorResultType<"VALIDATION", { email?: ErrorResultType<"INVALID_EMAIL", ...>[]; ... }>
+ *
+ * if (Result.isErr(signup)) {
+ *   signup.data["items[2].qty"]; // ErrorResultType<"NOT_POSITIVE", ...>[] | undefined
+ * }
+ * ```
+ */
+function validate<
+	S extends
+		| { readonly [field: string]: ValidationShape }
+		| readonly ValidationShape[],
+	T extends Uppercase<string> = never,
+>(fields: S, options: CollectOptions<T> = {}): ValidateReturn<S, T> {
+	const errors: Record<string, AnyResult[]> = {};
+	const value = validateShape(fields, "", errors);
+	return (
+		Object.keys(errors).length > 0
+			? err("VALIDATION", errors)
+			: taggedOk(options.tag, value)
+	) as ValidateReturn<S, T>;
+}
+
+/**
+ * Translates the tags of a result at a layer boundary, e.g. a repository error into
+ * a service error. Every error tag needs an entry, given with or without its prefix,
+ * unless it is listed in `passthrough`, so adding a tag to the input is a compile
+ * error until it is translated. Success tags may be translated the same way; the
+ * others are returned as they are. The output is the union of the entries' results
+ * and the members returned as they are.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.mapTags(await users.insert(user), {
+ *   UNIQUE_VIOLATION: (data) => Result.err("EMAIL_TAKEN", { email: data.value }),
+ *   CONNECTION_LOST: () => Result.err("UNAVAILABLE", { retryable: true }),
+ *   ROW_INSERTED: (row) => Result.ok("USER_CREATED", toUser(row)),
+ * }, { passthrough: ["TIMEOUT"] });
+ * // Type: ErrorResultType<"EMAIL_TAKEN", ...> | ErrorResultType<"UNAVAILABLE", ...>
+ * //     | SuccessResultType<"USER_CREATED", User> | ErrorResultType<"TIMEOUT", ...>
+ * ```
+ */
+function mapTags<
+	R extends AnyResult,
+	H extends TagMap<R>,
+	P extends TagKeys<ErrorOf<R>> = never,
+>(
+	result: R,
+	table: ExhaustiveTagMap<R, H, P>,
+	options: { passthrough?: readonly P[] } = {},
+): MatchReturn<H> | Unmapped<R, H> {
+	const entries = table as Record<
+		string,
+		((data: unknown, result: AnyResult) => AnyResult) | undefined
+	>;
+	const translate =
+		entries[result.type] ??
+		Object.entries(entries).find(([tag]) => isTag(result, tag))?.[1];
+	if (translate !== undefined) {
+		return translate(result.data, result) as MatchReturn<H>;
+	}
+	if (
+		isErr(result) &&
+		!options.passthrough?.some((tag) => isTag(result, tag))
+	) {
+		throw new TypeError(`No translation for result type "${result.type}"`);
+	}
+	return result as Unmapped<R, H>;
+}
+
+/**
+ * Extracts a readable message from an error payload, if it has one.
+ */
+function messageOf(data: unknown): string | undefined {
+	if (data instanceof Error) {
+		return data.message;
+	}
+	const message = (data as { message?: unknown } | null | undefined)?.message;
+	return typeof message === "string" ? message : undefined;
+}
+
+function unwrapFailure(result: AnyResult, expected: string): string {
+	const detail = messageOf(result.data);
+	return `Expected ${expected} result but got "${result.type}"${
+		detail === undefined ? "" : `: ${detail}`
+	}`;
+}
+
+/**
+ * Returns the payload of a success result, or throws a `TaggedResultError`
+ * carrying the tag and payload of an error result.
+ *
+ * @example
+ * ```typescript
+ * const user = Result.unwrap(await getUser(123)); // User, or throws
+ * ```
+ */
+function unwrap<R extends AnyResult>(result: R): SuccessOf<R>["data"] {
+	if (isOk(result)) {
+		return result.data;
+	}
+	throw new TaggedResultError(result, unwrapFailure(result, "a success"));
+}
+
+/**
+ * Like `unwrap`, but throws with the given message.
+ *
+ * @example
+ * ```typescript
+ * const config = Result.expect(loadConfig(), "The config file must be valid");
+ * ```
+ */
+function expect<R extends AnyResult>(
+	result: R,
+	message: string,
+): SuccessOf<R>["data"] {
+	if (isOk(result)) {
+		return result.data;
+	}
+	throw new TaggedResultError(result, message);
+}
+
+/**
+ * Returns the payload of a success result, or the fallback for an error result.
+ *
+ * @example
+ * ```typescript
+ * const port = Result.unwrapOr(parsePort(env.PORT), 3000);
+ * ```
+ */
+function unwrapOr<R extends AnyResult, F>(
+	result: R,
+	fallback: F,
+): SuccessOf<R>["data"] | F {
+	return isOk(result) ? result.data : fallback;
+}
+
+/**
+ * Returns the payload of a success result, or computes a fallback from the error payload.
+ *
+ * @example
+ * ```typescript
+ * const name = Result.unwrapOrElse(await getUser(id), (error) => `unknown (${error.message})`);
+ * ```
+ */
+function unwrapOrElse<R extends AnyResult, F>(
+	result: R,
+	fn: (data: ErrorOf<R>["data"], result: ErrorOf<R>) => F,
+): SuccessOf<R>["data"] | F {
+	if (isOk(result)) {
+		return result.data;
+	}
+	return fn(result.data, result as ErrorOf<R>);
+}
+
+/**
+ * Returns the payload of an error result, or throws a `TaggedResultError`
+ * carrying the tag and payload of a success result. Mostly useful in tests.
+ *
+ * @example
+ * ```typescript
+ * const error = Result.unwrapErr(validateUser({})); // { error: string }, or throws
+ * ```
+ */
+function unwrapErr<R extends AnyResult>(result: R): ErrorOf<R>["data"] {
+	if (isErr(result)) {
+		return result.data;
+	}
+	throw new TaggedResultError(result, unwrapFailure(result, "an error"));
+}
+
+// Overloads for the 'fromError' function
+/**
+ * Turns a caught `TaggedResultError` back into the result it was thrown for.
+ * Any other value becomes `err(error)`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   return Result.ok("DONE", Result.unwrap(await getUser(id)));
+ * } catch (error) {
+ *   return Result.fromError(error); // the original error result
+ * }
+ * ```
+ */
+function fromError<T extends string, D>(
+	error: TaggedResultError<T, D>,
+): ResultType<T, D>;
+function fromError(error: unknown): AnyResult;
+// Implementation of 'fromError'
+function fromError(error: unknown): AnyResult {
+	if (error instanceof TaggedResultError) {
+		return error.result;
+	}
+	return err(error);
+}
+
+/**
+ * Encodes a result as a JSON string that `Result.deserialize` can turn back
+ * into an equal result. Unlike `JSON.stringify`, it keeps `Error` payloads
+ * (including subclasses, `cause` chains and custom properties), `Date`,
+ * `Map`, `Set`, `BigInt`, `undefined` and values of registered codecs.
+ *
+ * @example
+ * ```typescript
+ * const body = Result.serialize(Result.err("DB", new Error("Connection lost")));
+ * // {"$tagged-result":1,"kind":"err","type":"ERROR_DB","data":{"$type":"Error",...}}
+ * ```
+ */
+function serialize(result: AnyResult): string {
+	const seen = new Set<object>();
+	const envelope: SerializedResult = {
+		[ENVELOPE_KEY]: ENVELOPE_VERSION,
+		kind: requireKind(result),
+		type: result.type,
+		data: encodeValue(result.data, seen),
+		...encodeTrail(result, seen),
+	};
+	return JSON.stringify(envelope);
+}
+
+/**
+ * Rebuilds a result from the output of `Result.serialize`, either as a JSON
+ * string or already parsed. Plain `{ type, data }` objects produced by
+ * `JSON.stringify(result)` are accepted too, as long as their tag uses the
+ * default prefixes. Throws a `TypeError` for anything else.
+ *
+ * The payload is not validated, so the type parameter is only an assertion.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.deserialize<UserResult>(await response.text());
+ * ```
+ */
+function deserialize<R extends AnyResult = AnyResult>(input: unknown): R {
+	const envelope = (typeof input === "string" ? JSON.parse(input) : input) as
+		| Partial<SerializedResult>
+		| null
+		| undefined;
+	if (
+		typeof envelope !== "object" ||
+		envelope === null ||
+		typeof envelope.type !== "string" ||
+		!("data" in envelope)
+	) {
+		throw new TypeError("Expected a serialized result");
+	}
+	const version = envelope[ENVELOPE_KEY];
+	if (version !== undefined && version !== ENVELOPE_VERSION) {
+		throw new TypeError(
+			`Unsupported serialized result version ${JSON.stringify(version)}`,
+		);
+	}
+	const kind =
+		envelope.kind === "ok" || envelope.kind === "err"
+			? envelope.kind
+			: requireKind({ type: envelope.type, data: undefined });
+	return decodeResult(
+		envelope.type,
+		decodeValue(envelope.data),
+		kind,
+		envelope,
+	) as R;
+}
+
+/**
+ * Teaches `serialize` and `deserialize` how to encode instances of a class.
+ * Codecs are tried in registration order, before the built-in encodings. Returns a function that removes the codec again.
+ *
+ * @example
+ * ```typescript
+ * Result.registerCodec({
+ *   name: "Money",
+ *   test: (value) => value instanceof Money,
+ *   encode: (money) => ({ amount: money.amount, currency: money.currency }),
+ *   decode: (value) => new Money(value.amount, value.currency),
+ * });
+ * ```
+ */
+function registerCodec<T, E = unknown>(codec: ResultCodec<T, E>): () => void {
+	if (BUILTIN_TYPES.has(codec.name) || codecs.has(codec.name)) {
+		throw new TypeError(`A codec named "${codec.name}" is already registered`);
+	}
+	codecs.set(codec.name, codec as ResultCodec);
+	return () => {
+		if (codecs.get(codec.name) === codec) {
+			codecs.delete(codec.name);
+		}
+	};
+}
+
+/**
+ * Checks that an untrusted value (e.g. from a worker, a queue or an HTTP body)
+ * is one of the expected results. Each accepted tag maps to a validator for its
+ * payload: any Standard Schema (zod, valibot, arktype, ...) or a predicate.
+ * Unknown tags and invalid payloads become `ERROR_INVALID_RESULT`, carrying the
+ * issues and the original value.
+ *
+ * Validators that work asynchronously need `Result.parseAsync`; `Result.parse`
+ * throws a `TypeError` for them.
+ *
+ * @example
+ * ```typescript
+ * const result = Result.parse(message.body, {
+ *   SUCCESS_USER: z.object({ id: z.number(), name: z.string() }),
+ *   ERROR_NOT_FOUND: (data): data is { id: number } => typeof data === "object" && data !== null,
+ * });
+ * // Type: ResultType<"SUCCESS_USER", { id: number; name: string }> | ResultType<"ERROR_NOT_FOUND", { id: number }>
+ * //     | ResultType<"ERROR_INVALID_RESULT", { issues: ParseIssue[]; value: unknown }>
+ * ```
+ */
+function parse<M extends SchemaMap>(
+	value: unknown,
+	schemas: M,
+): ParsedResult<M> {
+	const started = startParse(value, schemas);
+	if (!("check" in started)) {
+		return started;
+	}
+	if (isPromiseLike(started.check)) {
+		throw new TypeError(
+			`The validator for "${started.type}" is asynchronous, use Result.parseAsync instead`,
+		);
+	}
+	return finishParse(value, started.type, started.check) as ParsedResult<M>;
+}
+
+/**
+ * Like `Result.parse`, but also accepts asynchronous validators.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.parseAsync(job.result, {
+ *   SUCCESS_IMPORTED: importedSchema,
+ *   ERROR_IMPORT_FAILED: failureSchema,
+ * });
+ * ```
+ */
+async function parseAsync<M extends SchemaMap>(
+	value: unknown,
+	schemas: M,
+): Promise<ParsedResult<M>> {
+	const started = startParse(value, schemas);
+	if (!("check" in started)) {
+		return started;
+	}
+	return finishParse(
+		value,
+		started.type,
+		await started.check,
+	) as ParsedResult<M>;
+}
+
+/**
+ * Builds a Fetch API `Response` from a result. The body is the envelope of
+ * `Result.serialize` and the status comes from the status map, which must
+ * list every tag of the union except the bare "SUCCESS" (200) and "ERROR" (500).
+ *
+ * @example
+ * ```typescript
+ * export async function POST(request: Request) {
+ *   return Result.toResponse(await createUser(await request.json()), {
+ *     SUCCESS_USER_CREATED: 201,
+ *     ERROR_VALIDATION: 422,
+ *     ERROR_CONFLICT: 409,
+ *   });
+ * }
+ * ```
+ */
+function toResponse<R extends AnyResult>(
+	result: R,
+	statuses: StatusMap<R>,
+	init: ResponseInit = {},
+): Response {
+	const mapped = Object.prototype.hasOwnProperty.call(statuses, result.type)
+		? (statuses as Record<string, number | undefined>)[result.type]
+		: undefined;
+	const status = mapped ?? (kindOf(result) === "ok" ? 200 : 500);
+	const headers = new Headers(init.headers);
+	if (!headers.has("content-type")) {
+		headers.set("content-type", "application/json");
+	}
+	return new Response(serialize(result), { ...init, status, headers });
+}
+
+/**
+ * Turns a `fetch` response, or the pending `fetch` call, back into a tagged
+ * result. A body written by `Result.toResponse` is decoded with
+ * `Result.deserialize`, other JSON bodies are taken as they are, and the
+ * result is checked against the parsers like `Result.parseAsync` does. Failed requests become `ERROR_NETWORK`, and bodies
+ * that are not JSON become `ERROR_INVALID_BODY`.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.fromResponse(fetch(`/api/users/${id}`), {
+ *   SUCCESS_USER: userSchema,
+ *   ERROR_NOT_FOUND: notFoundSchema,
+ * });
+ * // Type: ... | ResultType<"ERROR_INVALID_RESULT", ...> | ResultType<"ERROR_NETWORK", ...> | ResultType<"ERROR_INVALID_BODY", ...>
+ * ```
+ */
+async function fromResponse<M extends SchemaMap>(
+	response: Response | PromiseLike<Response>,
+	parsers: M,
+): Promise<ParsedResult<M> | NetworkErrorResult | InvalidBodyResult> {
+	let status: number;
+	let body: string;
+	try {
+		const settled = await response;
+		status = settled.status;
+		body = await settled.text();
+	} catch (error) {
+		return err("NETWORK", { error });
+	}
+	let value: unknown;
+	try {
+		value = JSON.parse(body);
+		if (typeof value === "object" && value !== null && ENVELOPE_KEY in value) {
+			value = deserialize(value);
+		}
+	} catch (error) {
+		return err("INVALID_BODY", { status, body, error });
+	}
+	return parseAsync(value, parsers);
+}
+
+/**
+ * Calls a result-returning function again while it fails with one of the given
+ * error tags. Successes and other errors are returned right away. When every
+ * attempt fails, the result is `ERROR_RETRY_EXHAUSTED`, holding the error of
+ * every attempt. Aborting the signal stops retrying with `ERROR_ABORTED`.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.retry(() => fetchUser(id), {
+ *   on: ["NETWORK", "RATE_LIMITED"],
+ *   attempts: 5,
+ *   backoff: (attempt, error) =>
+ *     error.type === "ERROR_RATE_LIMITED" ? error.data.retryAfterMs : 100 * 2 ** attempt,
+ *   jitter: 0.2,
+ * });
+ * ```
+ */
+async function retry<
+	R extends AnyResult,
+	T extends TagsOf<ErrorOf<R>> | StripPrefix<TagsOf<ErrorOf<R>>>,
+>(
+	fn: (attempt: number) => R | PromiseLike<R>,
+	options: RetryOptions<R, T>,
+): Promise<RetryReturn<R, T>> {
+	const {
+		on,
+		attempts = 3,
+		backoff = (attempt: number) => 100 * 2 ** (attempt - 1),
+		jitter = 0,
+		signal,
+		timer = globalTimer,
+		now = Date.now,
+		random = Math.random,
+	} = options;
+	const started = now();
+	const errors: RetriedErrors<R, T>[] = [];
+	for (let attempt = 1; ; attempt++) {
+		if (signal?.aborted) {
+			return aborted(signal);
+		}
+		const result = await fn(attempt);
+		if (!isErr(result) || !on.some((tag) => isTag(result as AnyResult, tag))) {
+			return result as Exclude<R, RetriedErrors<R, T>>;
+		}
+		const error = result as RetriedErrors<R, T>;
+		errors.push(error);
+		if (attempt >= attempts) {
+			return err("RETRY_EXHAUSTED", {
+				attempts: attempt,
+				errors,
+				elapsedMs: now() - started,
+			});
+		}
+		const delay =
+			typeof backoff === "function" ? backoff(attempt, error) : backoff;
+		if (
+			!(await sleep(
+				Math.max(0, delay * (1 - jitter * random())),
+				timer,
+				signal,
+			))
+		) {
+			return aborted(signal as AbortSignal);
+		}
+	}
+}
+
+/**
+ * Resolves to `ERROR_TIMEOUT` when the work does not finish within `ms` milliseconds.
+ * A function is called with an `AbortSignal` that is aborted on timeout, so the
+ * work itself can stop. The timer is cleared as soon as the work settles.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.withTimeout((signal) => fetchUser(id, { signal }), 5000);
+ * // Type: UserResult | ErrorResultType<"TIMEOUT", { ms: number }>
+ * ```
+ */
+function withTimeout<R extends AnyResult>(
+	work: CancellableWork<R>,
+	ms: number,
+	options: { timer?: ResultTimer } = {},
+): Promise<R | TimeoutResult> {
+	const { timer = globalTimer } = options;
+	const controller = new AbortController();
+	return raceWork<R, TimeoutResult>(
+		startWork(work, controller.signal),
+		(stop) => {
+			const handle = timer.setTimeout(() => {
+				controller.abort(
+					new DOMException(`Timed out after ${ms}ms`, "TimeoutError"),
+				);
+				stop(err("TIMEOUT", { ms }));
+			}, ms);
+			return () => timer.clearTimeout(handle);
+		},
+	);
+}
+
+/**
+ * Resolves to `ERROR_ABORTED` as soon as the signal is aborted, without waiting
+ * for the work. A function is called with the signal, so the work itself can stop,
+ * and is not called at all when the signal is already aborted.
+ *
+ * @example
+ * ```typescript
+ * const result = await Result.withSignal((signal) => runReport(params, { signal }), request.signal);
+ * // Type: ReportResult | ErrorResultType<"ABORTED", { reason: unknown }>
+ * ```
+ */
+function withSignal<R extends AnyResult>(
+	work: CancellableWork<R>,
+	signal: AbortSignal,
+): Promise<R | AbortedResult> {
+	if (signal.aborted) {
+		return Promise.resolve(aborted(signal));
+	}
+	return raceWork<R, AbortedResult>(startWork(work, signal), (stop) => {
+		const onAbort = () => stop(aborted(signal));
+		signal.addEventListener("abort", onAbort, { once: true });
+		return () => signal.removeEventListener("abort", onAbort);
+	});
+}
+
+// Overloads for the 'context' function
+/**
+ * Adds a breadcrumb to an error result, recording what was being done when it
+ * passed through. The tag and payload stay the same, and success results are
+ * returned as they are. Can be called data-first or curried for use in pipelines.
+ *
+ * Breadcrumbs are non-enumerable, so they do not change equality checks.
+ * Read them back with `Result.causeChain`.
+ *
+ * @example
+ * ```typescript
+ * const invoice = Result.context(await db.findInvoice(id), "loading invoice", { id });
+ *
+ * const customer = await db.findCustomer(id).then(Result.context("loading customer"));
+ * ```
+ */
+function context<R extends AnyResult>(
+	result: R,
+	message: string,
+	meta?: Record<string, unknown>,
+): R;
+function context(
+	message: string,
+	meta?: Record<string, unknown>,
+): <R extends AnyResult>(result: R) => R;
+// Implementation of 'context'
+function context(
+	resultOrMessage: AnyResult | string,
+	messageOrMeta?: string | Record<string, unknown>,
+	meta?: Record<string, unknown>,
+): unknown {
+	if (typeof resultOrMessage === "string") {
+		return (result: AnyResult) =>
+			context(
+				result,
+				resultOrMessage,
+				messageOrMeta as Record<string, unknown> | undefined,
+			);
+	}
+	const result = resultOrMessage;
+	if (kindOf(result) === "ok") {
+		return result;
+	}
+	const breadcrumb: ResultBreadcrumb = { message: messageOrMeta as string };
+	if (meta !== undefined) {
+		breadcrumb.meta = meta;
+	}
+	return withTrail(
+		{ type: result.type, data: result.data },
+		kindOf(result),
+		[...contextOf(result), breadcrumb],
+		causeOf(result),
+	);
+}
+
+/**
+ * Attaches another result, usually a lower-level error, as the cause of a result.
+ * The tag and payload stay the same.
+ *
+ * @example
+ * ```typescript
+ * const loaded = await db.findInvoice(id);
+ * if (Result.isErr(loaded)) {
+ *   return Result.withCause(Result.err("INVOICE_UNAVAILABLE", { id }), loaded);
+ * }
+ * ```
+ */
+function withCause<R extends AnyResult>(result: R, cause: AnyResult): R {
+	return withTrail(
+		{ type: result.type, data: result.data },
+		kindOf(result),
+		contextOf(result),
+		cause,
+	) as R;
+}
+
+/**
+ * Lists a result and its causes, outermost first, each with its breadcrumbs.
+ *
+ * @example
+ * ```typescript
+ * for (const link of Result.causeChain(result)) {
+ *   log.error(link.type, { data: link.data, context: link.context });
+ * }
+ * ```
+ */
+function causeChain(result: AnyResult): CauseLink[] {
+	const chain: CauseLink[] = [];
+	for (
+		let link: AnyResult | undefined = result;
+		link !== undefined;
+		link = causeOf(link)
+	) {
+		chain.push({ type: link.type, data: link.data, context: contextOf(link) });
+	}
+	return chain;
+}
+
+function describeBreadcrumb(breadcrumb: ResultBreadcrumb): string {
+	return `    at ${breadcrumb.message}${
+		breadcrumb.meta === undefined ? "" : ` ${describeData(breadcrumb.meta)}`
+	}`;
+}
+
+function describeData(data: unknown): string {
+	if (data instanceof Error) {
+		return `${data.name}: ${data.message}`;
+	}
+	try {
+		return JSON.stringify(data) ?? String(data);
+	} catch {
+		return String(data);
+	}
+}
+
+/**
+ * Formats a result, its breadcrumbs and its causes as a readable multi-line
+ * string, like a stack trace, for logs and error reports.
+ *
+ * @example
+ * ```typescript
+ * console.error(Result.diagnostic(result));
+ * // ERROR_INVOICE_UNAVAILABLE {"id":42}
+ * //     at rendering invoice page
+ * // Caused by: ERROR_DB_TIMEOUT {"ms":5000}
+ * //     at loading invoice {"id":42}
+ * ```
+ */
+function diagnostic(result: AnyResult): string {
+	return causeChain(result)
+		.map((link, index) =>
+			[
+				`${index === 0 ? "" : "Caused by: "}${link.type} ${describeData(link.data)}`,
+				...link.context.map(describeBreadcrumb),
+			].join("\n"),
+		)
+		.join("\n");
+}
+
+/**
+ * Formats a result for humans: the tag, then the payload spread over several
+ * lines, with `Error` payloads shown with their stack and cause. Breadcrumbs
+ * and causes follow, as in `Result.diagnostic`. Results use the same rendering
+ * in `console.log` and `util.inspect` on Node.
+ *
+ * @example
+ * ```typescript
+ * console.error(Result.format(result, { colors: process.stderr.isTTY }));
+ * // ERROR_DB_TIMEOUT {
+ * //   ms: 5000,
+ * //   error: Error: connect ETIMEDOUT
+ * //       at TCPConnectWrap.afterConnect (node:net:1607:16)
+ * // }
+ * //     at loading invoice {"id":42}
+ * ```
+ */
+function format(result: AnyResult, options: FormatOptions = {}): string {
+	const { colors = false, depth = 2 } = options;
+	const lines: string[] = [];
+	for (
+		let link: AnyResult | undefined = result;
+		link !== undefined;
+		link = causeOf(link)
+	) {
+		const data = renderValue(
+			link.data,
+			{ colors, depth, seen: new Set([link]) },
+			0,
+		);
+		lines.push(
+			`${link === result ? "" : "Caused by: "}${renderTag(link, colors)} ${data}`,
+			...contextOf(link).map((breadcrumb) =>
+				paint(describeBreadcrumb(breadcrumb), "grey", colors),
+			),
+		);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Converts a result to a plain object for structured loggers such as pino or
+ * winston. `Error` payloads keep their message, stack and cause, breadcrumbs are
+ * listed under `context`, and the causes under `causes`, outermost first.
+ * Sensitive payload fields can be redacted by path.
+ *
+ * @example
+ * ```typescript
+ * logger.error(Result.toLogObject(result, { redact: ["password", "card.number", "users[*].email"] }));
+ * // { type: "ERROR_PAYMENT_DECLINED", kind: "err", data: { card: { number: "[Redacted]", ... } } }
+ * ```
+ */
+function toLogObject(
+	result: AnyResult,
+	options: LogOptions = {},
+): ResultLogObject {
+	const convert = {
+		redact: (options.redact ?? []).map(parsePath),
+		censor: options.censor ?? "[Redacted]",
+		seen: new Set<object>(),
+	};
+	const [first, ...causes] = causeChain(result).map((link) => {
+		const entry: ResultLogEntry = {
+			type: link.type,
+			data: toLogValue(link.data, [], convert),
+		};
+		if (link.context.length > 0) {
+			entry.context = [...link.context];
+		}
+		return entry;
+	});
+	const logObject: ResultLogObject = {
+		type: first.type,
+		kind: isErr(result) ? "err" : "ok",
+		data: first.data,
+	};
+	if (first.context !== undefined) {
+		logObject.context = first.context;
+	}
+	if (causes.length > 0) {
+		logObject.causes = causes;
+	}
+	return logObject;
+}
+
+// Overloads for the 'stream.map' function
+/**
+ * Transforms the payload of every success result of a sequence, like `Result.map`.
+ * The transform may be async, with up to `concurrency` payloads in progress at once,
+ * and the results keep their order. Can be called data-first or curried.
+ *
+ * @example
+ * ```typescript
+ * const enriched = Result.stream.map(rows, (row) => geocode(row.address), { concurrency: 4 });
+ * for await (const result of enriched) {
+ *   // SuccessResultType<"ROW_PARSED", Location> | ErrorResultType<"BAD_ROW", ...>
+ * }
+ * ```
+ */
+function streamMap<R extends AnyResult, U>(
+	source: ResultSource<R>,
+	fn: (data: SuccessOf<R>["data"]) => U | PromiseLike<U>,
+	options?: StreamOptions,
+): AsyncIterable<MapOk<R, U>>;
+function streamMap<D, U>(
+	fn: (data: D) => U | PromiseLike<U>,
+	options?: StreamOptions,
+): <R extends ResultWithOk<D>>(
+	source: ResultSource<R>,
+) => AsyncIterable<MapOk<R, U>>;
+function streamMap(
+	sourceOrFn: ResultSource<AnyResult> | ((data: unknown) => unknown),
+	fnOrOptions?: ((data: unknown) => unknown) | StreamOptions,
+	options: StreamOptions = {},
+): unknown {
+	if (typeof sourceOrFn === "function") {
+		return (source: ResultSource<AnyResult>) =>
+			streamMap(source, sourceOrFn, fnOrOptions as StreamOptions);
+	}
+	const fn = fnOrOptions as (data: unknown) => unknown;
+	return mapConcurrently(
+		sourceOrFn,
+		async (result) =>
+			isOk(result) ? withData(result, await fn(result.data)) : result,
+		options.concurrency ?? 1,
+	);
+}
+
+// Overloads for the 'stream.andThen' function
+/**
+ * Chains another fallible step onto every success result of a sequence, like
+ * `Result.andThen`. The step may be async, with up to `concurrency` steps in
+ * progress at once, and the results keep their order. Can be called data-first or curried.
+ *
+ * @example
+ * ```typescript
+ * const saved = Result.stream.andThen(rows, (row) => db.insert(row), { concurrency: 8 });
+ * // AsyncIterable<ErrorResultType<"BAD_ROW", ...> | SuccessResultType<"ROW_SAVED", ...> | ErrorResultType<"DB_ERROR", ...>>
+ * ```
+ */
+function streamAndThen<R extends AnyResult, R2 extends AnyResult>(
+	source: ResultSource<R>,
+	fn: (data: SuccessOf<R>["data"]) => R2 | PromiseLike<R2>,
+	options?: StreamOptions,
+): AsyncIterable<ErrorOf<R> | R2>;
+function streamAndThen<D, R2 extends AnyResult>(
+	fn: (data: D) => R2 | PromiseLike<R2>,
+	options?: StreamOptions,
+): <R extends ResultWithOk<D>>(
+	source: ResultSource<R>,
+) => AsyncIterable<ErrorOf<R> | R2>;
+function streamAndThen(
+	sourceOrFn:
+		| ResultSource<AnyResult>
+		| ((data: unknown) => AnyResult | PromiseLike<AnyResult>),
+	fnOrOptions?:
+		| ((data: unknown) => AnyResult | PromiseLike<AnyResult>)
+		| StreamOptions,
+	options: StreamOptions = {},
+): unknown {
+	if (typeof sourceOrFn === "function") {
+		return (source: ResultSource<AnyResult>) =>
+			streamAndThen(source, sourceOrFn, fnOrOptions as StreamOptions);
+	}
+	const fn = fnOrOptions as (
+		data: unknown,
+	) => AnyResult | PromiseLike<AnyResult>;
+	return mapConcurrently(
+		sourceOrFn,
+		(result) => (isOk(result) ? fn(result.data) : result),
+		options.concurrency ?? 1,
+	);
+}
+
+/**
+ * Passes results through up to and including the first error, then stops
+ * reading the source.
+ *
+ * @example
+ * ```typescript
+ * for await (const result of Result.stream.takeUntilErr(rows)) {
+ *   if (Result.isErr(result)) {
+ *     console.error("Import stopped at", result.data);
+ *   }
+ * }
+ * ```
+ */
+async function* takeUntilErr<R extends AnyResult>(
+	source: ResultSource<R>,
+): AsyncIterable<R> {
+	for await (const result of iterate(source)) {
+		yield result;
+		if (isErr(result)) {
+			return;
+		}
+	}
+}
+
+// Overloads for the 'stream.errorBudget' function
+/**
+ * Passes results through until more than `max` errors have been seen. The error
+ * that exceeds the budget is replaced by `ERROR_BUDGET_EXCEEDED`, which ends the
+ * sequence and stops reading the source. Can be called data-first or curried.
+ *
+ * @example
+ * ```typescript
+ * const rows = Result.stream.errorBudget(parseCsv(file), { max: 100 });
+ * // AsyncIterable<RowResult | ErrorResultType<"BUDGET_EXCEEDED", { max: number; error: ... }>>
+ * ```
+ */
+function errorBudget<R extends AnyResult>(
+	source: ResultSource<R>,
+	options: ErrorBudgetOptions,
+): AsyncIterable<R | BudgetExceededResult<ErrorOf<R>>>;
+function errorBudget(
+	options: ErrorBudgetOptions,
+): <R extends AnyResult>(
+	source: ResultSource<R>,
+) => AsyncIterable<R | BudgetExceededResult<ErrorOf<R>>>;
+function errorBudget(
+	sourceOrOptions: ResultSource<AnyResult> | ErrorBudgetOptions,
+	options?: ErrorBudgetOptions,
+): unknown {
+	if (!isResultSource(sourceOrOptions)) {
+		return (source: ResultSource<AnyResult>) =>
+			errorBudget(source, sourceOrOptions);
+	}
+	const { max } = options as ErrorBudgetOptions;
+	return (async function* () {
+		let errors = 0;
+		for await (const result of iterate(sourceOrOptions)) {
+			if (isErr(result) && ++errors > max) {
+				yield err("BUDGET_EXCEEDED", { max, error: result });
+				return;
+			}
+			yield result;
+		}
+	})();
+}
 
-// Overloads for the 'ok' function
-function ok<D>(data: D): DefaultSuccessResultType<D>;
-function ok<T extends Uppercase<string>, D>(
-	type: T,
-	data: D,
-): SuccessResultType<T, D>;
-// Implementation of 'ok'
-function ok<T extends Uppercase<string>, D>(
-	...args: [D] | [T, D]
-): ResultType<"SUCCESS" | `SUCCESS_${T}`, D> {
-	if (args.length === 1) {
-		// Corresponds to: ok<D>(data: D)
-		return {
-			type: "SUCCESS",
-			data: args[0] as D,
-		};
+/**
+ * Reads a whole sequence and splits it into its success and error members,
+ * like `Result.partition`. Every result is kept in memory, so bound long
+ * sequences first, e.g. with `Result.stream.errorBudget` or `takeUntilErr`.
+ *
+ * @example
+ * ```typescript
+ * const [imported, rejected] = await Result.stream.collect(Result.stream.andThen(rows, saveRow));
+ * ```
+ */
+async function collect<R extends AnyResult>(
+	source: ResultSource<R>,
+): Promise<PartitionReturn<R>> {
+	const successes: SuccessOf<R>[] = [];
+	const failures: ErrorOf<R>[] = [];
+	for await (const result of iterate(source)) {
+		if (isOk(result)) {
+			successes.push(result);
+		} else {
+			failures.push(result as ErrorOf<R>);
+		}
 	}
-	// Corresponds to: ok<T extends Uppercase<string>, D>(type: T, data: D)
-	// The type is already uppercase, just add SUCCESS_ prefix
-	const prefixedType = `SUCCESS_${args[0]}` as `SUCCESS_${T}`;
-	return {
-		type: prefixedType,
-		data: args[1] as D,
+	return [successes, failures];
+}
+
+/**
+ * Exposes a sequence of results as a web `ReadableStream`. Results are only
+ * read from the source when the stream is read, and cancelling the stream
+ * stops the source.
+ *
+ * @example
+ * ```typescript
+ * return new Response(
+ *   Result.stream.toReadable(Result.stream.map(rows, toCsvLine)).pipeThrough(new TextEncoderStream()),
+ * );
+ * ```
+ */
+function toReadable<R>(source: ResultSource<R>): ReadableStream<R> {
+	const iterator = iterate(source);
+	return new ReadableStream<R>(
+		{
+			async pull(controller) {
+				const step = await iterator.next();
+				if (step.done) {
+					controller.close();
+				} else {
+					controller.enqueue(step.value);
+				}
+			},
+			async cancel() {
+				await iterator.return();
+			},
+		},
+		{ highWaterMark: 0 },
+	);
+}
+
+/**
+ * Turns a function over sequences of results, such as a curried `Result.stream`
+ * helper, into a web transform stream for `pipeThrough`.
+ *
+ * @example
+ * ```typescript
+ * const saved = parsedRows.pipeThrough(
+ *   Result.stream.transform((rows: AsyncIterable<RowResult>) =>
+ *     Result.stream.errorBudget(Result.stream.andThen(rows, saveRow), { max: 10 }),
+ *   ),
+ * );
+ * ```
+ */
+function transform<I, O>(
+	fn: (source: AsyncIterable<I>) => ResultSource<O>,
+): ReadableWritablePair<O, I> {
+	const { readable, writable } = new TransformStream<I, I>();
+	return { readable: toReadable(fn(iterate(readable))), writable };
+}
+
+/**
+ * Helpers for sync and async iterables and web streams of results. They read the
+ * source one result at a time, as the output is consumed, so large or endless
+ * sequences never have to fit in memory.
+ *
+ * @example
+ * ```typescript
+ * const [saved, failed] = await Result.stream.collect(
+ *   Result.stream.errorBudget(Result.stream.andThen(rows, saveRow, { concurrency: 8 }), { max: 100 }),
+ * );
+ * ```
+ */
+const stream = {
+	map: streamMap,
+	andThen: streamAndThen,
+	takeUntilErr,
+	errorBudget,
+	collect,
+	toReadable,
+	transform,
+};
+
+/**
+ * Registers hooks called for every result created by `ok` and `err`, in every
+ * factory. Returns a function that unregisters them. Without any hooks, creating
+ * results costs nothing extra.
+ *
+ * @example
+ * ```typescript
+ * const stop = Result.instrument({
+ *   onErr: ({ type }) => errorCounter.add(1, { tag: type, service: "billing" }),
+ *   onOk: ({ type }) => okCounter.add(1, { tag: type }),
+ *   sampleRate: 0.1,
+ * });
+ * ```
+ */
+function instrument(hooks: ResultHooks): () => void {
+	globalHooks.push(hooks);
+	refreshHooks();
+	return () => {
+		const index = globalHooks.indexOf(hooks);
+		if (index !== -1) {
+			globalHooks.splice(index, 1);
+			refreshHooks();
+		}
 	};
 }
 
-// Overloads for the 'err' function
-function err<D>(data: D): DefaultErrorResultType<D>;
-function err<T extends Uppercase<string>, D>(
-	type: T extends Uppercase<T> ? T : never,
-	data: D,
-): ErrorResultType<T, D>;
-// Implementation of 'err'
-function err<T extends Uppercase<string>, D>(
-	...args: [D] | [T extends Uppercase<T> ? T : never, D]
-): ResultType<"ERROR" | `ERROR_${T}`, D> {
-	if (args.length === 1) {
-		// Corresponds to: err<D>(data: D)
-		return {
-			type: "ERROR",
-			data: args[0] as D,
-		};
+/**
+ * Runs `fn` with hooks that only see the results created in its async context,
+ * such as a single request. Needs a `hookStorage`, which keeps this module free
+ * of Node imports.
+ *
+ * @example
+ * ```typescript
+ * import { AsyncLocalStorage } from "node:async_hooks";
+ *
+ * Result.configure({ hookStorage: new AsyncLocalStorage() });
+ *
+ * app.use((req, res, next) =>
+ *   Result.withHooks({ onErr: ({ type }) => span.addEvent("result.error", { tag: type }) }, next),
+ * );
+ * ```
+ */
+function withHooks<T>(hooks: ResultHooks, fn: () => T): T {
+	const storage = config.hookStorage;
+	if (storage === undefined) {
+		throw new TypeError(
+			"Result.withHooks needs a hook storage, e.g. Result.configure({ hookStorage: new AsyncLocalStorage() })",
+		);
 	}
-	// Corresponds to: err<T extends Uppercase<string>, D>(type: T, data: D)
-	// The type is already uppercase, just add ERROR_ prefix
-	const prefixedType = `ERROR_${args[0]}` as `ERROR_${T}`;
-	return {
-		type: prefixedType,
-		data: args[1] as D,
-	};
+	const outer =
+		(storage.getStore() as readonly ResultHooks[] | undefined) ?? [];
+	return storage.run([...outer, hooks], fn);
 }
 
 // --- Public Exports ---
 
+export type { ResultType, SuccessOf, ErrorOf, StripPrefix };
+
+/**
+ * The tags of a result union.
+ *
+ * @example
+ * ```typescript
+ * type Tags = TagsOf<SuccessResultType<"USER_FOUND", User> | ErrorResultType<"NOT_FOUND", { id: number }>>;
+ * // "SUCCESS_USER_FOUND" | "ERROR_NOT_FOUND"
+ * ```
+ */
+export type TagsOf<R> = R extends AnyResult ? R["type"] : never;
+
+/**
+ * The data payload of the members of a result union with the given tag.
+ * Like `Result.isTag`, the tag may be given with or without its prefix.
+ *
+ * @example
+ * ```typescript
+ * type NotFound = DataOf<UserResult, "NOT_FOUND">; // { id: number }
+ * ```
+ */
+export type DataOf<R, T extends TagsOf<R> | StripPrefix<TagsOf<R>>> = WithTag<
+	R,
+	T | FullTag<DefaultShape, "success", T> | FullTag<DefaultShape, "error", T>
+>["data"];
+
+/**
+ * Splits a tag into its segments.
+ *
+ * @template T - The tag
+ * @template Sep - The separator between segments, "_" by default
+ *
+ * @example
+ * ```typescript
+ * type Segments = TagSegments<"ERROR_DB_TIMEOUT">; // ["ERROR", "DB", "TIMEOUT"]
+ * ```
+ */
+export type TagSegments<
+	T extends string,
+	Sep extends string = "_",
+> = string extends T
+	? string[]
+	: T extends `${infer Head}${Sep}${infer Rest}`
+		? [Head, ...TagSegments<Rest, Sep>]
+		: [T];
+
+/**
+ * Every path in the tag hierarchy from the first segment of a tag down to the tag itself.
+ *
+ * @template T - The tag
+ * @template Sep - The separator between segments, "_" by default
+ *
+ * @example
+ * ```typescript
+ * type Paths = TagPaths<"ERROR_DB_TIMEOUT">; // "ERROR" | "ERROR_DB" | "ERROR_DB_TIMEOUT"
+ * ```
+ */
+export type TagPaths<
+	T extends string,
+	Sep extends string = "_",
+> = T extends string
+	? string extends T
+		? string
+		: JoinPaths<TagSegments<T, Sep>, Sep>
+	: never;
+
+/**
+ * Narrows a result union to the members at or below a path in the tag hierarchy,
+ * as `Result.isUnder` does. The path may be given with or without its prefix.
+ *
+ * @example
+ * ```typescript
+ * type DbErrors = ResultsUnder<AppResult, "DB">; // ERROR_DB_TIMEOUT | ERROR_DB_CONSTRAINT | ...
+ * ```
+ */
+export type ResultsUnder<R, P extends string> = WithTag<
+	R,
+	UnderPattern<P, DefaultShape>
+>;
+
+/**
+ * The result union returned by a function, unwrapping promises. A result or a
+ * promise of a result may be passed directly, too.
+ *
+ * @example
+ * ```typescript
+ * async function getUser(id: number) { ... }
+ * type UserResult = InferResult<typeof getUser>;
+ * ```
+ */
+export type InferResult<F> = F extends (...args: never[]) => infer R
+	? Awaited<R>
+	: Awaited<F>;
+
+/**
+ * Combines two result unions into one where every tag appears once,
+ * with the payloads of members that share a tag combined into a union.
+ *
+ * @example
+ * ```typescript
+ * type Merged = MergeResults<ErrorResultType<"NOT_FOUND", { id: number }>, ErrorResultType<"NOT_FOUND", { slug: string }>>;
+ * // ErrorResultType<"NOT_FOUND", { id: number } | { slug: string }>
+ * ```
+ */
+export type MergeResults<A extends AnyResult, B extends AnyResult> = {
+	[T in TagsOf<A | B>]: ResultType<
+		T,
+		WithTag<A | B, T>["data"],
+		KindOf<WithTag<A | B, T>> extends "ok" ? "ok" : "err"
+	>;
+}[TagsOf<A | B>];
+
+/**
+ * Replaces the error members of a result union with the given tag by another result type.
+ * The tag may be given with or without its "ERROR_" prefix.
+ *
+ * @example
+ * ```typescript
+ * type Mapped = ReplaceError<UserResult, "NOT_FOUND", ErrorResultType<"USER_MISSING", { id: number }>>;
+ * ```
+ */
+export type ReplaceError<
+	R,
+	From extends TagsOf<ErrorOf<R>> | StripPrefix<TagsOf<ErrorOf<R>>>,
+	To extends AnyResult,
+> = R extends AnyResult
+	? KindOf<R> extends "err"
+		? R["type"] extends From | FullTag<DefaultShape, "error", From>
+			? To
+			: R
+		: R
+	: never;
+
 /**
  * A specialized version of ResultType for success outcomes with SUCCESS_* variants.
  * The type parameter represents the specific success type suffix.
@@ -79,10 +4250,10 @@ function err<T extends Uppercase<string>, D>(
  * }
  * ```
  */
-export type SuccessResultType<
-	T extends Uppercase<string>,
-	D,
-> = ResultType<`SUCCESS_${T}`, D>;
+export type SuccessResultType<T extends Uppercase<string>, D> = ResultType<
+	`SUCCESS_${T}`,
+	D
+>;
 
 /**
  * A specialized version of ResultType for error outcomes with ERROR_* variants.
@@ -98,10 +4269,10 @@ export type SuccessResultType<
  * }
  * ```
  */
-export type ErrorResultType<
-	T extends Uppercase<string>,
-	D,
-> = ResultType<`ERROR_${T}`, D>;
+export type ErrorResultType<T extends Uppercase<string>, D> = ResultType<
+	`ERROR_${T}`,
+	D
+>;
 
 /**
  * A specialized version of ResultType for default success outcomes.
@@ -133,6 +4304,487 @@ export type DefaultSuccessResultType<D> = ResultType<"SUCCESS", D>;
  */
 export type DefaultErrorResultType<D> = ResultType<"ERROR", D>;
 
+/**
+ * Options for `createResult`, describing the tag layout of the results it creates.
+ */
+export type ResultFactoryOptions = {
+	/** Prefix of success tags (defaults to "SUCCESS") */
+	successPrefix?: string;
+	/** Prefix of error tags (defaults to "ERROR") */
+	errorPrefix?: string;
+	/** Placed between a prefix and a custom tag (defaults to "_") */
+	separator?: string;
+	/** Optional namespace placed in front of every tag, e.g. "billing" */
+	namespace?: string;
+	/** Placed between the namespace and the prefix (defaults to "/") */
+	namespaceSeparator?: string;
+	/** Called for every result created by this factory's `ok` and `err` */
+	hooks?: ResultHooks;
+};
+
+/**
+ * The `ok`/`err` constructors and guards created by `createResult` for a given tag layout.
+ * The default `Result` export is the instance with the "SUCCESS_"/"ERROR_" layout.
+ *
+ * @template S - The resolved tag layout of the factory
+ */
+export type ResultFactory<S extends ResultShape = DefaultShape> = {
+	/**
+	 * Creates a success result, either with the bare success tag or with a custom tag
+	 * that is prefixed automatically (e.g. `ok("USER_CREATED", user)` becomes "SUCCESS_USER_CREATED").
+	 */
+	ok: {
+		<D>(data: D): ShapedDefaultSuccess<S, D>;
+		<T extends Uppercase<string>, D>(
+			type: ValidTag<T, S>,
+			data: D,
+		): ShapedSuccess<S, T, D>;
+	};
+	/**
+	 * Creates an error result, either with the bare error tag or with a custom tag
+	 * that is prefixed automatically (e.g. `err("NOT_FOUND", data)` becomes "ERROR_NOT_FOUND").
+	 */
+	err: {
+		<D>(data: D): ShapedDefaultError<S, D>;
+		<T extends Uppercase<string>, D>(
+			type: ValidTag<T, S>,
+			data: D,
+		): ShapedError<S, T, D>;
+	};
+	/**
+	 * Checks whether a result belongs to the success family
+	 * ("SUCCESS" or any "SUCCESS_*" variant) and narrows it accordingly.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = parseNumber("42");
+	 * if (Result.isOk(result)) {
+	 *   console.log(result.data.value); // only success members remain
+	 * }
+	 * ```
+	 */
+	isOk<R extends AnyResult>(result: R): result is SuccessOf<R>;
+	/**
+	 * Checks whether a result belongs to the error family
+	 * ("ERROR" or any "ERROR_*" variant) and narrows it accordingly.
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = parseNumber("abc");
+	 * if (Result.isErr(result)) {
+	 *   console.error(result.data.input); // only error members remain
+	 * }
+	 * ```
+	 */
+	isErr<R extends AnyResult>(result: R): result is ErrorOf<R>;
+	/**
+	 * Checks whether a result carries the given tag. The tag may be passed
+	 * either in full ("SUCCESS_USER_CREATED") or without its prefix ("USER_CREATED").
+	 *
+	 * @example
+	 * ```typescript
+	 * if (Result.isTag(result, "USER_CREATED")) {
+	 *   console.log(result.data.id); // narrowed to SUCCESS_USER_CREATED
+	 * }
+	 * ```
+	 */
+	isTag<R extends AnyResult, T extends R["type"] | StripPrefix<R["type"], S>>(
+		result: R,
+		tag: T,
+	): result is WithTag<
+		R,
+		T | FullTag<S, "success", T> | FullTag<S, "error", T>
+	>;
+	/**
+	 * Checks whether a result's tag is at or below a path in the tag hierarchy,
+	 * whose segments are split by the separator. The path may be given with or
+	 * without its prefix, and a bare path matches both families.
+	 *
+	 * @example
+	 * ```typescript
+	 * if (Result.isUnder(result, "DB")) {
+	 *   // narrowed to every ERROR_DB and ERROR_DB_* member, e.g. ERROR_DB_TIMEOUT
+	 * }
+	 * ```
+	 */
+	isUnder<
+		R extends AnyResult,
+		P extends
+			| TagPaths<R["type"], S["separator"]>
+			| TagPaths<StripPrefix<R["type"], S>, S["separator"]>,
+	>(result: R, path: P): result is WithTag<R, UnderPattern<P, S>>;
+	/**
+	 * Exhaustively matches a result against a handler per tag, like `Result.match`.
+	 * Hierarchical keys split their path by the separator, e.g. "ERROR:DB_*" for "ERROR:DB:TIMEOUT".
+	 *
+	 * @example
+	 * ```typescript
+	 * const Events = createResult({ separator: ":" });
+	 * const message = Events.match(result, {
+	 *   "ERROR:DB_*": () => "Database error",
+	 *   "ERROR_*": () => "Something went wrong",
+	 *   "SUCCESS_*": () => "Done",
+	 * });
+	 * ```
+	 */
+	match<R extends AnyResult, H extends MatchHandlers<R, S["separator"]>>(
+		result: R,
+		handlers: ExhaustiveHandlers<R, H, S["separator"]>,
+	): MatchReturn<H>;
+	/**
+	 * Like `match`, but accepts a promise of a result and awaits async handlers.
+	 */
+	matchAsync<R extends AnyResult, H extends MatchHandlers<R, S["separator"]>>(
+		result: R | PromiseLike<R>,
+		handlers: ExhaustiveHandlers<R, H, S["separator"]>,
+	): Promise<Awaited<MatchReturn<H>>>;
+	/** The resolved tag layout of this factory */
+	shape: S;
+};
+
+/**
+ * A success result with a custom tag in the layout of a `createResult` factory.
+ *
+ * @template F - The factory, as `typeof factory`
+ * @template T - The string literal representing the specific success type suffix
+ * @template D - The type of the data payload associated with this success result
+ *
+ * @example
+ * ```typescript
+ * const Billing = createResult({ namespace: "billing" });
+ * type Charged = FactorySuccessResultType<typeof Billing, "CHARGED", Receipt>;
+ * // { type: "billing/SUCCESS_CHARGED", data: Receipt }
+ * ```
+ */
+export type FactorySuccessResultType<
+	F extends { shape: ResultShape },
+	T extends Uppercase<string>,
+	D,
+> = ShapedSuccess<F["shape"], T, D>;
+
+/**
+ * An error result with a custom tag in the layout of a `createResult` factory.
+ *
+ * @template F - The factory, as `typeof factory`
+ * @template T - The string literal representing the specific error type suffix
+ * @template D - The type of the data payload associated with this error result
+ *
+ * @example
+ * ```typescript
+ * const Billing = createResult({ namespace: "billing" });
+ * type Declined = FactoryErrorResultType<typeof Billing, "CARD_DECLINED", { reason: string }>;
+ * // { type: "billing/ERROR_CARD_DECLINED", data: { reason: string } }
+ * ```
+ */
+export type FactoryErrorResultType<
+	F extends { shape: ResultShape },
+	T extends Uppercase<string>,
+	D,
+> = ShapedError<F["shape"], T, D>;
+
+/**
+ * A success result with the bare success tag of a `createResult` factory.
+ *
+ * @template F - The factory, as `typeof factory`
+ * @template D - The type of the data payload associated with this success result
+ */
+export type FactoryDefaultSuccessResultType<
+	F extends { shape: ResultShape },
+	D,
+> = ShapedDefaultSuccess<F["shape"], D>;
+
+/**
+ * An error result with the bare error tag of a `createResult` factory.
+ *
+ * @template F - The factory, as `typeof factory`
+ * @template D - The type of the data payload associated with this error result
+ */
+export type FactoryDefaultErrorResultType<
+	F extends { shape: ResultShape },
+	D,
+> = ShapedDefaultError<F["shape"], D>;
+
+/**
+ * Creates `ok`/`err` constructors and guards for a custom tag layout,
+ * e.g. "OK"/"FAIL" prefixes or namespaced tags like "billing/ERROR_CARD_DECLINED".
+ * Results from every factory work with the combinators of `Result`.
+ *
+ * @example
+ * ```typescript
+ * const Billing = createResult({ namespace: "billing" });
+ * Billing.err("CARD_DECLINED", { reason: "insufficient funds" });
+ * // { type: "billing/ERROR_CARD_DECLINED", data: { reason: "insufficient funds" } }
+ *
+ * const Legacy = createResult({ successPrefix: "OK", errorPrefix: "FAIL" });
+ * Legacy.ok("SAVED", record); // { type: "OK_SAVED", data: record }
+ * ```
+ */
+export function createResult<
+	const O extends ResultFactoryOptions = Record<never, never>,
+>(options: O = {} as O): ResultFactory<ShapeOf<O>> {
+	const shape: ResultShape = {
+		namespace:
+			options.namespace === undefined
+				? ""
+				: `${options.namespace}${options.namespaceSeparator ?? "/"}`,
+		success: options.successPrefix ?? DEFAULT_SHAPE.success,
+		error: options.errorPrefix ?? DEFAULT_SHAPE.error,
+		separator: options.separator ?? DEFAULT_SHAPE.separator,
+	};
+	const prefixes = prefixPattern(shape);
+	const hooks = options.hooks === undefined ? [] : [options.hooks];
+	const factory = {
+		ok: (...args: unknown[]) =>
+			buildResult(shape, prefixes, "success", args, hooks),
+		err: (...args: unknown[]) =>
+			buildResult(shape, prefixes, "error", args, hooks),
+		isOk: (result: AnyResult) => kindOf(result, shape) === "ok",
+		isErr: (result: AnyResult) => kindOf(result, shape) === "err",
+		isTag: (result: AnyResult, tag: string) =>
+			result.type === tag ||
+			result.type === `${bareTag(shape, "success")}${shape.separator}${tag}` ||
+			result.type === `${bareTag(shape, "error")}${shape.separator}${tag}`,
+		isUnder: (result: AnyResult, path: string) =>
+			isUnderPath(result.type, path, shape),
+		match: (result: AnyResult, handlers: object) =>
+			findHandler(result, handlers, shape)(result.data, result),
+		matchAsync: async (
+			result: AnyResult | PromiseLike<AnyResult>,
+			handlers: object,
+		) => {
+			const settled = await result;
+			return await findHandler(settled, handlers, shape)(settled.data, settled);
+		},
+		shape,
+	};
+	return factory as unknown as ResultFactory<ShapeOf<O>>;
+}
+
+const defaultResult = createResult();
+const { ok, err, isOk, isErr, isTag } = defaultResult;
+
+/**
+ * The envelope written by `Result.serialize`. Payload values JSON cannot represent
+ * are replaced by `{ "$type": ... }` objects, see the README for the full format.
+ */
+export type SerializedResult = {
+	/** The format version, currently 1 */
+	"$tagged-result": 1;
+	/** The family of the result */
+	kind: "ok" | "err";
+	/** The tag of the result */
+	type: string;
+	/** The encoded data payload */
+	data: unknown;
+	/** The breadcrumbs added by `Result.context`, if any */
+	context?: unknown[];
+	/** The result attached by `Result.withCause`, encoded like a nested result */
+	cause?: unknown;
+};
+
+/**
+ * A breadcrumb added to an error result by `Result.context`.
+ */
+export type ResultBreadcrumb = {
+	/** What was being done when the error passed through */
+	message: string;
+	/** Details, such as the ids involved */
+	meta?: Record<string, unknown>;
+};
+
+/**
+ * One result in the chain returned by `Result.causeChain`.
+ */
+export type CauseLink = {
+	type: string;
+	data: unknown;
+	/** The breadcrumbs of this result, oldest first */
+	context: readonly ResultBreadcrumb[];
+};
+
+/**
+ * A result reported to the hooks of `Result.instrument`, `Result.withHooks` and `createResult`.
+ */
+export type ResultEvent = {
+	/** The full tag of the new result, e.g. "ERROR_NOT_FOUND" */
+	type: string;
+	data: unknown;
+	/** The stack frame that created the result, when the hooks ask for it */
+	callSite?: string;
+};
+
+/**
+ * Observes the results created by `ok` and `err`, e.g. to count errors by tag
+ * or to add span events.
+ */
+export type ResultHooks = {
+	/** Called for every new success result */
+	onOk?: (event: ResultEvent) => void;
+	/** Called for every new error result */
+	onErr?: (event: ResultEvent) => void;
+	/** The fraction of results reported, from 0 to 1. Defaults to 1 */
+	sampleRate?: number;
+	/** Returns a random number in [0, 1) for the sampling, defaults to `Math.random` */
+	random?: () => number;
+	/** Captures the call site of every reported result. Defaults to false, as it is costly */
+	callSite?: boolean;
+};
+
+/**
+ * A result or one of its causes in the object returned by `Result.toLogObject`.
+ */
+export type ResultLogEntry = {
+	type: string;
+	/** The payload as plain values, with redacted fields replaced */
+	data: unknown;
+	/** The breadcrumbs added by `Result.context`, oldest first */
+	context?: ResultBreadcrumb[];
+};
+
+/**
+ * The object returned by `Result.toLogObject` for structured loggers.
+ */
+export type ResultLogObject = ResultLogEntry & {
+	kind: "ok" | "err";
+	/** The causes attached by `Result.withCause`, outermost first */
+	causes?: ResultLogEntry[];
+};
+
+/**
+ * A problem found by `Result.parse`, reported in the `ERROR_INVALID_RESULT` payload.
+ */
+export type ParseIssue = {
+	/** Describes the problem */
+	message: string;
+	/** Where the problem is, starting with "type" or "data" */
+	path: PropertyKey[];
+};
+
+/**
+ * Describes how to encode instances of a class for `Result.serialize`.
+ *
+ * @template T - The type of the values handled by the codec
+ * @template E - The type of their encoded form
+ */
+export type ResultCodec<T = unknown, E = unknown> = {
+	/** Unique name, written to the `$type` field of encoded values */
+	name: string;
+	/** Returns true for the values this codec handles */
+	test(value: unknown): boolean;
+	/** Converts a value to something serializable, which is encoded further */
+	encode(value: T): E;
+	/** Rebuilds a value from its decoded encoded form */
+	decode(value: E): T;
+};
+
+/**
+ * Thrown by `Result.unwrap`, `Result.expect` and `Result.unwrapErr`.
+ * It keeps the tag and payload of the result that could not be unwrapped,
+ * and uses the payload as `cause` when it is an `Error`.
+ *
+ * @template T - The tag of the result that could not be unwrapped
+ * @template D - The type of its data payload
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   Result.unwrap(await getUser(123));
+ * } catch (error) {
+ *   if (error instanceof TaggedResultError && error.type === "ERROR_NOT_FOUND") {
+ *     return notFound(error.data);
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class TaggedResultError<
+	T extends string = string,
+	D = unknown,
+> extends Error {
+	/** The tag of the result that could not be unwrapped */
+	readonly type: T;
+	/** The data payload of the result that could not be unwrapped */
+	readonly data: D;
+	/** The result that could not be unwrapped */
+	readonly result: ResultType<T, D>;
+	/** The data payload, when it is an `Error` */
+	readonly cause?: unknown;
+
+	constructor(result: { type: T; data: D }, message?: string) {
+		super(message ?? `Unexpected result "${result.type}"`);
+		this.name = "TaggedResultError";
+		this.type = result.type;
+		this.data = result.data;
+		this.result = result as ResultType<T, D>;
+		if (result.data instanceof Error) {
+			this.cause = result.data;
+		}
+	}
+}
+
+/**
+ * Declares the payload type of a tag in a `defineResults` catalog.
+ * It has no runtime behavior.
+ *
+ * @template T - The type of the data payload associated with the tag
+ *
+ * @example
+ * ```typescript
+ * defineResults({ success: { USER_CREATED: type<User>() } });
+ * ```
+ */
+export function type<T>(): PayloadType<T> {
+	return {} as PayloadType<T>;
+}
+
+/**
+ * Declares every success and error tag of a domain in one place.
+ * Returns a typed constructor per tag, the runtime list of prefixed tags,
+ * and the inferred union of all results through `typeof Catalog.Type`.
+ *
+ * @example
+ * ```typescript
+ * const UserResults = defineResults({
+ *   success: { USER_CREATED: type<User>() },
+ *   error: { NOT_FOUND: type<{ id: string }>() },
+ * });
+ * type UserResult = typeof UserResults.Type;
+ * // SuccessResultType<"USER_CREATED", User> | ErrorResultType<"NOT_FOUND", { id: string }>
+ *
+ * function createUser(user: User): UserResult {
+ *   return UserResults.ok.USER_CREATED(user);
+ * }
+ *
+ * UserResults.tags.error; // ["ERROR_NOT_FOUND"]
+ * ```
+ */
+export function defineResults<
+	S extends PayloadMap = Record<never, never>,
+	E extends PayloadMap = Record<never, never>,
+>(catalog: { success?: S; error?: E }): ResultCatalog<S, E> {
+	const successTags = Object.keys(catalog.success ?? {});
+	const errorTags = Object.keys(catalog.error ?? {});
+	return {
+		ok: Object.fromEntries(
+			successTags.map((tag) => [
+				tag,
+				(data: unknown) => ok(tag as Uppercase<string>, data),
+			]),
+		),
+		err: Object.fromEntries(
+			errorTags.map((tag) => [
+				tag,
+				(data: unknown) => err(tag as Uppercase<string>, data),
+			]),
+		),
+		tags: {
+			success: successTags.map((tag) => `SUCCESS_${tag}`),
+			error: errorTags.map((tag) => `ERROR_${tag}`),
+		},
+		Type: undefined,
+	} as unknown as ResultCatalog<S, E>;
+}
+
 /**
  * A utility object containing helper functions to create `ResultType` objects
  * for representing operation outcomes (success or error).
@@ -152,6 +4804,56 @@ export type DefaultErrorResultType<D> = ResultType<"ERROR", D>;
  * ```
  */
 export const Result = {
-	ok,
-	err,
-};
\ No newline at end of file
+	...defaultResult,
+	configure,
+	isResult,
+	match,
+	matchAsync,
+	map,
+	mapErr,
+	andThen,
+	orElse,
+	mapTags,
+	tap,
+	tapErr,
+	gen,
+	genAsync,
+	try: tryCatch,
+	fromPromise,
+	wrap,
+	resultify,
+	all,
+	allAsync,
+	collectErrors,
+	collectErrorsAsync,
+	partition,
+	partitionAsync,
+	any,
+	anyAsync,
+	validate,
+	unwrap,
+	expect,
+	unwrapOr,
+	unwrapOrElse,
+	unwrapErr,
+	fromError,
+	serialize,
+	deserialize,
+	registerCodec,
+	parse,
+	parseAsync,
+	toResponse,
+	fromResponse,
+	retry,
+	withTimeout,
+	withSignal,
+	context,
+	withCause,
+	causeChain,
+	diagnostic,
+	format,
+	toLogObject,
+	stream,
+	instrument,
+	withHooks,
+};
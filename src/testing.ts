@@ -0,0 +1,341 @@
+// Brings Vitest's declarations into scope so they can be augmented below
+import type {} from "vitest";
+import { Result, TaggedResultError } from "./index.js";
+import type { ErrorOf, SuccessOf } from "./index.js";
+
+// --- Internal Type Definitions ---
+
+type AnyResult = { type: string; data: unknown };
+
+/**
+ * The parts of the `this` context of custom matchers used here,
+ * as provided by both Vitest and Jest.
+ */
+type MatcherContext = {
+	isNot: boolean;
+	equals(a: unknown, b: unknown): boolean;
+	utils: {
+		matcherHint(
+			matcherName: string,
+			received?: string,
+			expected?: string,
+			options?: { isNot?: boolean },
+		): string;
+		printReceived(value: unknown): string;
+		diff(a: unknown, b: unknown): string | null | undefined;
+	};
+};
+
+type MatcherResult = {
+	pass: boolean;
+	message: () => string;
+	actual?: unknown;
+	expected?: unknown;
+};
+
+// --- Internal Runtime Helpers ---
+
+function isResultLike(value: unknown): value is AnyResult {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as AnyResult).type === "string" &&
+		"data" in value
+	);
+}
+
+/**
+ * Copies the fields of a result so that the diff shows the tag and payload only.
+ */
+function plain(value: unknown): unknown {
+	return isResultLike(value) ? { type: value.type, data: value.data } : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Compares `actual` with a partial `expected` payload: plain objects only need
+ * the expected keys, everything else (including asymmetric matchers) uses `equals`.
+ */
+function matchesPartial(
+	context: MatcherContext,
+	actual: unknown,
+	expected: unknown,
+): boolean {
+	if (!isPlainObject(expected)) {
+		return context.equals(actual, expected);
+	}
+	return (
+		typeof actual === "object" &&
+		actual !== null &&
+		Object.keys(expected).every((key) =>
+			matchesPartial(
+				context,
+				(actual as Record<string, unknown>)[key],
+				expected[key],
+			),
+		)
+	);
+}
+
+function report(
+	context: MatcherContext,
+	name: string,
+	received: unknown,
+	pass: boolean,
+	expectation: string,
+	expected?: unknown,
+): MatcherResult {
+	return {
+		pass,
+		message: () => {
+			const hint = context.utils.matcherHint(name, undefined, undefined, {
+				isNot: context.isNot,
+			});
+			const details =
+				expected === undefined || context.isNot || !isResultLike(received)
+					? null
+					: context.utils.diff(expected, plain(received));
+			return `${hint}\n\nExpected ${context.isNot ? "not " : ""}${expectation}\n\n${
+				details ?? `Received: ${context.utils.printReceived(plain(received))}`
+			}`;
+		},
+		actual: plain(received),
+		expected,
+	};
+}
+
+/**
+ * The result a matcher expected, for the diff. The received tag is used when it
+ * matches, so that a tag given without its prefix does not show up as a difference.
+ */
+function expectedResult(
+	received: unknown,
+	tag: string,
+	expected: [data?: unknown],
+): AnyResult {
+	if (!isResultLike(received)) {
+		return { type: tag, data: expected[0] };
+	}
+	return {
+		type: Result.isTag(received, tag) ? received.type : tag,
+		data: expected.length > 0 ? expected[0] : received.data,
+	};
+}
+
+function describeResult(result: AnyResult): string {
+	let data: string;
+	try {
+		data = JSON.stringify(result.data);
+	} catch {
+		data = String(result.data);
+	}
+	return `"${result.type}" with data ${data}`;
+}
+
+// --- Public Exports ---
+
+/**
+ * Custom matchers for tagged results. Register them once, e.g. in a setup file,
+ * with `expect.extend(resultMatchers)` in Vitest or Jest.
+ *
+ * Tags may be given with or without their prefix, as in `Result.isTag`.
+ *
+ * @example
+ * ```typescript
+ * import { resultMatchers } from "@voiys/tagged-result/testing";
+ *
+ * expect.extend(resultMatchers);
+ *
+ * expect(createUser(input)).toBeResult("USER_CREATED", { id: 1 });
+ * expect(createUser({})).toBeErrWith("VALIDATION", { field: "name" });
+ * ```
+ */
+export const resultMatchers = {
+	/** Passes when the value is a success result */
+	toBeOk(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = isResultLike(received) && Result.isOk(received);
+		return report(this, "toBeOk", received, pass, "a success result");
+	},
+	/** Passes when the value is an error result */
+	toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = isResultLike(received) && Result.isErr(received);
+		return report(this, "toBeErr", received, pass, "an error result");
+	},
+	/** Passes when the value has the given tag and, if given, a payload equal to `data` */
+	toBeResult(
+		this: MatcherContext,
+		received: unknown,
+		tag: string,
+		...expected: [data?: unknown]
+	): MatcherResult {
+		const hasData = expected.length > 0;
+		const pass =
+			isResultLike(received) &&
+			Result.isTag(received, tag) &&
+			(!hasData || this.equals(received.data, expected[0]));
+		return report(
+			this,
+			"toBeResult",
+			received,
+			pass,
+			`a result tagged "${tag}"${hasData ? " with the given data" : ""}`,
+			expectedResult(received, tag, expected),
+		);
+	},
+	/** Passes when the value has one of the given tags */
+	toHaveTag(
+		this: MatcherContext,
+		received: unknown,
+		...tags: string[]
+	): MatcherResult {
+		const pass =
+			isResultLike(received) && tags.some((tag) => Result.isTag(received, tag));
+		return report(
+			this,
+			"toHaveTag",
+			received,
+			pass,
+			`a result tagged ${tags.map((tag) => `"${tag}"`).join(" or ")}`,
+		);
+	},
+	/** Passes when the value is an error result with the given tag whose payload contains `data` */
+	toBeErrWith(
+		this: MatcherContext,
+		received: unknown,
+		tag: string,
+		...expected: [data?: unknown]
+	): MatcherResult {
+		const hasData = expected.length > 0;
+		const pass =
+			isResultLike(received) &&
+			Result.isErr(received) &&
+			Result.isTag(received, tag) &&
+			(!hasData || matchesPartial(this, received.data, expected[0]));
+		return report(
+			this,
+			"toBeErrWith",
+			received,
+			pass,
+			`an error result tagged "${tag}"${hasData ? " containing the given data" : ""}`,
+			expectedResult(received, tag, expected),
+		);
+	},
+};
+
+/**
+ * The types of the matchers in `resultMatchers`, merged into the `expect` of Vitest and Jest.
+ *
+ * @template R - The return type of the matchers, as defined by the test runner
+ */
+export type ResultMatchers<R = unknown> = {
+	/**
+	 * Passes when the value is a success result.
+	 *
+	 * @example
+	 * ```typescript
+	 * expect(Result.ok(1)).toBeOk();
+	 * ```
+	 */
+	toBeOk(): R;
+	/**
+	 * Passes when the value is an error result.
+	 *
+	 * @example
+	 * ```typescript
+	 * expect(Result.err("TIMEOUT", { ms: 100 })).toBeErr();
+	 * ```
+	 */
+	toBeErr(): R;
+	/**
+	 * Passes when the value has the given tag and, if given, a payload equal to `data`.
+	 *
+	 * @example
+	 * ```typescript
+	 * expect(createUser(input)).toBeResult("USER_CREATED", { id: 1, name: "Ada" });
+	 * ```
+	 */
+	toBeResult(tag: string, data?: unknown): R;
+	/**
+	 * Passes when the value has one of the given tags.
+	 *
+	 * @example
+	 * ```typescript
+	 * expect(result).toHaveTag("NOT_FOUND", "FORBIDDEN");
+	 * ```
+	 */
+	toHaveTag(...tags: string[]): R;
+	/**
+	 * Passes when the value is an error result with the given tag
+	 * whose payload contains the given properties.
+	 *
+	 * @example
+	 * ```typescript
+	 * expect(validate({})).toBeErrWith("VALIDATION", { field: "name" });
+	 * ```
+	 */
+	toBeErrWith(tag: string, data?: unknown): R;
+};
+
+declare module "vitest" {
+	// biome-ignore lint/suspicious/noExplicitAny: must match the declaration in Vitest
+	interface Assertion<T = any> extends ResultMatchers<T> {}
+	interface AsymmetricMatchersContaining extends ResultMatchers {}
+}
+
+declare global {
+	namespace jest {
+		// biome-ignore lint/complexity/noBannedTypes: must match the declaration in Jest
+		interface Matchers<R, T = {}> extends ResultMatchers<R> {}
+	}
+}
+
+/**
+ * Throws unless the result is a success, narrowing it for the rest of the test.
+ *
+ * @example
+ * ```typescript
+ * const result = createUser(input);
+ * assertOk(result);
+ * expect(result.data.id).toBe(1); // result is the success member here
+ * ```
+ */
+export function assertOk<R extends AnyResult>(
+	result: R,
+	message?: string,
+): asserts result is SuccessOf<R> {
+	if (!Result.isOk(result)) {
+		throw new TaggedResultError(
+			result,
+			message ?? `Expected a success result but got ${describeResult(result)}`,
+		);
+	}
+}
+
+/**
+ * Throws unless the result is an error, narrowing it for the rest of the test.
+ *
+ * @example
+ * ```typescript
+ * const result = createUser({});
+ * assertErr(result);
+ * expect(result.data.field).toBe("name");
+ * ```
+ */
+export function assertErr<R extends AnyResult>(
+	result: R,
+	message?: string,
+): asserts result is ErrorOf<R> {
+	if (!Result.isErr(result)) {
+		throw new TaggedResultError(
+			result,
+			message ?? `Expected an error result but got ${describeResult(result)}`,
+		);
+	}
+}
@@ -1,6 +1,31 @@
-import { describe, expect, test } from "vitest";
-import { Result } from "../src/index";
-import type { ErrorResultType, SuccessResultType } from "../src/index";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { inspect } from "node:util";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	test,
+	vi,
+} from "vitest";
+import {
+	Result,
+	TaggedResultError,
+	createResult,
+	defineResults,
+	type,
+} from "../src/index";
+import type {
+	DefaultErrorResultType,
+	DefaultSuccessResultType,
+	ErrorResultType,
+	FactoryDefaultErrorResultType,
+	FactoryErrorResultType,
+	FactorySuccessResultType,
+	ParseIssue,
+	SuccessResultType,
+} from "../src/index";
 
 describe("Result utility", () => {
 	describe("Result.ok", () => {
@@ -46,12 +71,12 @@ describe("Result utility", () => {
 		});
 
 		test("should create an error result with custom type", () => {
-			const result = Result.err("ERROR_VALIDATION", {
+			const result = Result.err("VALIDATION", {
 				field: "email",
 				message: "Invalid format",
 			});
 
-			expect(result.type).toBe("ERROR_ERROR_VALIDATION");
+			expect(result.type).toBe("ERROR_VALIDATION");
 			expect(result.data).toEqual({
 				field: "email",
 				message: "Invalid format",
@@ -60,9 +85,9 @@ describe("Result utility", () => {
 
 		test("should handle Error objects", () => {
 			const error = new Error("Network timeout");
-			const result = Result.err("ERROR_NETWORK", error);
+			const result = Result.err("NETWORK", error);
 
-			expect(result.type).toBe("ERROR_ERROR_NETWORK");
+			expect(result.type).toBe("ERROR_NETWORK");
 			expect(result.data).toBe(error);
 		});
 	});
@@ -150,6 +175,2694 @@ describe("Result utility", () => {
 			}
 		});
 	});
+
+	describe("Type guards", () => {
+		type UserResult =
+			| SuccessResultType<"USER_CREATED", { id: number }>
+			| ErrorResultType<"NOT_FOUND", { id: number }>
+			| DefaultErrorResultType<{ message: string }>;
+
+		function findUser(id: number): UserResult {
+			if (id === 1) {
+				return Result.ok("USER_CREATED", { id });
+			}
+			if (id === 2) {
+				return Result.err("NOT_FOUND", { id });
+			}
+			return Result.err({ message: "Unexpected" });
+		}
+
+		test("isResult should accept branded results only", () => {
+			expect(Result.isResult(Result.ok(1))).toBe(true);
+			expect(Result.isResult(Result.err("FAILED", 1))).toBe(true);
+			expect(Result.isResult(JSON.parse('{"type":"SUCCESS","data":1}'))).toBe(
+				false,
+			);
+			expect(Result.isResult(null)).toBe(false);
+			expect(Result.isResult("SUCCESS")).toBe(false);
+		});
+
+		test("brand should not be enumerable", () => {
+			const result = Result.ok("USER_CREATED", { id: 1 });
+
+			expect(Object.keys(result)).toEqual(["type", "data"]);
+			expect(JSON.stringify(result)).toBe(
+				'{"type":"SUCCESS_USER_CREATED","data":{"id":1}}',
+			);
+			expect(result).toEqual({ type: "SUCCESS_USER_CREATED", data: { id: 1 } });
+		});
+
+		test("ok and err should add at most one own property", () => {
+			for (const result of [Result.ok(1), Result.err("FAILED", 1)]) {
+				expect(Reflect.ownKeys(result).length).toBeLessThanOrEqual(3);
+				expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+			}
+		});
+
+		test("isOk and isErr should narrow the union", () => {
+			const created = findUser(1);
+			const missing = findUser(2);
+
+			expect(Result.isOk(created)).toBe(true);
+			expect(Result.isErr(created)).toBe(false);
+			if (Result.isOk(created)) {
+				expectTypeOf(created.type).toEqualTypeOf<"SUCCESS_USER_CREATED">();
+				expect(created.data.id).toBe(1);
+			}
+
+			expect(Result.isErr(missing)).toBe(true);
+			if (Result.isErr(missing)) {
+				expectTypeOf(missing.type).toEqualTypeOf<"ERROR_NOT_FOUND" | "ERROR">();
+			}
+		});
+
+		test("isOk and isErr should fall back to tags for plain objects", () => {
+			const plain = JSON.parse('{"type":"ERROR_TIMEOUT","data":null}') as
+				| SuccessResultType<"DONE", null>
+				| ErrorResultType<"TIMEOUT", null>;
+
+			expect(Result.isOk(plain)).toBe(false);
+			expect(Result.isErr(plain)).toBe(true);
+			expect(Result.isErr({ type: "UNKNOWN", data: null })).toBe(false);
+		});
+
+		test("isTag should accept full and unprefixed tags", () => {
+			const created = findUser(1);
+
+			expect(Result.isTag(created, "USER_CREATED")).toBe(true);
+			expect(Result.isTag(created, "SUCCESS_USER_CREATED")).toBe(true);
+			expect(Result.isTag(created, "NOT_FOUND")).toBe(false);
+			if (Result.isTag(created, "USER_CREATED")) {
+				expectTypeOf(created.data).toEqualTypeOf<{ id: number }>();
+			}
+		});
+	});
+
+	describe("Result.match", () => {
+		type UserResult =
+			| SuccessResultType<"USER_CREATED" | "USER_UPDATED", { name: string }>
+			| ErrorResultType<"NOT_FOUND", { id: number }>
+			| ErrorResultType<"VALIDATION", { field: string }>
+			| DefaultErrorResultType<{ message: string }>;
+
+		const created = Result.ok("USER_CREATED", { name: "Alice" }) as UserResult;
+		const missing = Result.err("NOT_FOUND", { id: 7 }) as UserResult;
+		const failed = Result.err({ message: "Boom" }) as UserResult;
+
+		test("should call the handler for the exact tag", () => {
+			const handlers = {
+				SUCCESS_USER_CREATED: (user: { name: string }) =>
+					`created ${user.name}`,
+				SUCCESS_USER_UPDATED: (user: { name: string }) =>
+					`updated ${user.name}`,
+				ERROR_NOT_FOUND: (error: { id: number }) => error.id,
+				ERROR_VALIDATION: (error: { field: string }) => error.field,
+				ERROR: (error: { message: string }) => error.message,
+			};
+
+			expect(Result.match(created, handlers)).toBe("created Alice");
+			expect(Result.match(missing, handlers)).toBe(7);
+			expect(Result.match(failed, handlers)).toBe("Boom");
+			expectTypeOf(Result.match(created, handlers)).toEqualTypeOf<
+				string | number
+			>();
+		});
+
+		test("should narrow data and pass the result to each handler", () => {
+			const output = Result.match(missing, {
+				SUCCESS_USER_CREATED: (user) => user.name,
+				SUCCESS_USER_UPDATED: (user) => user.name,
+				ERROR_NOT_FOUND: (error, result) => {
+					expectTypeOf(error).toEqualTypeOf<{ id: number }>();
+					expectTypeOf(result.type).toEqualTypeOf<"ERROR_NOT_FOUND">();
+					return result.type;
+				},
+				"ERROR_*": () => null,
+			});
+
+			expect(output).toBe("ERROR_NOT_FOUND");
+		});
+
+		test("should fall back to family wildcards and _", () => {
+			const byFamily = (result: UserResult) =>
+				Result.match(result, {
+					ERROR_NOT_FOUND: () => "missing",
+					"SUCCESS_*": (user) => user.name,
+					"ERROR_*": () => "failed",
+				});
+			const byDefault = (result: UserResult) =>
+				Result.match(result, {
+					SUCCESS_USER_CREATED: () => "created",
+					_: (_data, result) => result.type,
+				});
+
+			expect(byFamily(created)).toBe("Alice");
+			expect(byFamily(missing)).toBe("missing");
+			expect(byFamily(failed)).toBe("failed");
+			expect(byDefault(created)).toBe("created");
+			expect(byDefault(failed)).toBe("ERROR");
+		});
+
+		test("should reject missing and unknown tags at compile time", () => {
+			expect(() =>
+				// @ts-expect-error - ERROR_VALIDATION and ERROR are not handled
+				Result.match(created, {
+					"SUCCESS_*": () => 1,
+					ERROR_NOT_FOUND: () => 2,
+				}),
+			).not.toThrow();
+
+			expect(() =>
+				Result.match(created, {
+					"SUCCESS_*": () => 1,
+					"ERROR_*": () => 2,
+					// @ts-expect-error - ERROR_UNKNOWN is not part of the union
+					ERROR_UNKNOWN: () => 3,
+				}),
+			).not.toThrow();
+		});
+
+		test("should throw when no handler applies at runtime", () => {
+			const handlers = { "SUCCESS_*": () => 1 } as never;
+
+			expect(() => Result.match(failed, handlers)).toThrow(
+				'No handler for result type "ERROR"',
+			);
+		});
+
+		test("matchAsync should accept promises and async handlers", async () => {
+			const output = await Result.matchAsync(Promise.resolve(created), {
+				"SUCCESS_*": async (user) => user.name.toUpperCase(),
+				"ERROR_*": () => 0,
+			});
+
+			expect(output).toBe("ALICE");
+			expectTypeOf(output).toEqualTypeOf<string | number>();
+		});
+	});
+
+	describe("Combinators", () => {
+		type ParseResult =
+			| SuccessResultType<"PARSED", { value: number }>
+			| ErrorResultType<"INVALID_NUMBER", { input: string }>;
+
+		function parse(input: string): ParseResult {
+			const value = Number.parseInt(input, 10);
+			if (Number.isNaN(value)) {
+				return Result.err("INVALID_NUMBER", { input });
+			}
+			return Result.ok("PARSED", { value });
+		}
+
+		function checkPositive(value: number) {
+			if (value <= 0) {
+				return Result.err("NOT_POSITIVE", { value });
+			}
+			return Result.ok("POSITIVE", value);
+		}
+
+		test("map should transform success data and keep tags", () => {
+			const doubled = Result.map(parse("21"), (parsed) => parsed.value * 2);
+			const failed = Result.map(parse("abc"), (parsed) => parsed.value * 2);
+
+			expect(doubled).toEqual({ type: "SUCCESS_PARSED", data: 42 });
+			expect(failed).toEqual({
+				type: "ERROR_INVALID_NUMBER",
+				data: { input: "abc" },
+			});
+			expect(Result.isResult(doubled)).toBe(true);
+			expectTypeOf(doubled).toEqualTypeOf<
+				| SuccessResultType<"PARSED", number>
+				| ErrorResultType<"INVALID_NUMBER", { input: string }>
+			>();
+		});
+
+		test("mapErr should transform error data and keep tags", () => {
+			const mapped = Result.mapErr(parse("abc"), (error) => error.input.length);
+
+			expect(mapped).toEqual({ type: "ERROR_INVALID_NUMBER", data: 3 });
+			expectTypeOf(mapped).toEqualTypeOf<
+				| SuccessResultType<"PARSED", { value: number }>
+				| ErrorResultType<"INVALID_NUMBER", number>
+			>();
+		});
+
+		test("andThen should union the error tags of both steps", () => {
+			const positive = Result.andThen(parse("5"), (parsed) =>
+				checkPositive(parsed.value),
+			);
+			const negative = Result.andThen(parse("-5"), (parsed) =>
+				checkPositive(parsed.value),
+			);
+			const invalid = Result.andThen(parse("abc"), (parsed) =>
+				checkPositive(parsed.value),
+			);
+
+			expect(positive).toEqual({ type: "SUCCESS_POSITIVE", data: 5 });
+			expect(negative.type).toBe("ERROR_NOT_POSITIVE");
+			expect(invalid.type).toBe("ERROR_INVALID_NUMBER");
+			expectTypeOf(positive.type).toEqualTypeOf<
+				"ERROR_INVALID_NUMBER" | "ERROR_NOT_POSITIVE" | "SUCCESS_POSITIVE"
+			>();
+		});
+
+		test("orElse should recover from errors", () => {
+			const recovered = Result.orElse(parse("abc"), () =>
+				Result.ok("DEFAULTED", { value: 0 }),
+			);
+			const untouched = Result.orElse(parse("1"), () =>
+				Result.ok("DEFAULTED", { value: 0 }),
+			);
+
+			expect(recovered).toEqual({
+				type: "SUCCESS_DEFAULTED",
+				data: { value: 0 },
+			});
+			expect(untouched.type).toBe("SUCCESS_PARSED");
+			expectTypeOf(recovered.type).toEqualTypeOf<
+				"SUCCESS_PARSED" | "SUCCESS_DEFAULTED"
+			>();
+		});
+
+		test("tap and tapErr should run side effects only for their family", () => {
+			const seen: unknown[] = [];
+			const success = parse("1");
+			const failure = parse("abc");
+
+			expect(Result.tap(success, (parsed) => seen.push(parsed.value))).toBe(
+				success,
+			);
+			expect(Result.tap(failure, (parsed) => seen.push(parsed.value))).toBe(
+				failure,
+			);
+			expect(Result.tapErr(failure, (error) => seen.push(error.input))).toBe(
+				failure,
+			);
+			expect(Result.tapErr(success, (error) => seen.push(error.input))).toBe(
+				success,
+			);
+			expect(seen).toEqual([1, "abc"]);
+		});
+
+		test("should support the curried form", () => {
+			const results = ["1", "-2", "x"]
+				.map(parse)
+				.map(Result.map((parsed: { value: number }) => parsed.value))
+				.map(Result.andThen(checkPositive))
+				.map(Result.mapErr(() => "rejected"));
+
+			expect(results.map((result) => result.type)).toEqual([
+				"SUCCESS_POSITIVE",
+				"ERROR_NOT_POSITIVE",
+				"ERROR_INVALID_NUMBER",
+			]);
+			expect(results[1].data).toBe("rejected");
+			expectTypeOf(results[0].type).toEqualTypeOf<
+				"SUCCESS_POSITIVE" | "ERROR_NOT_POSITIVE" | "ERROR_INVALID_NUMBER"
+			>();
+		});
+	});
+
+	describe("Result.gen", () => {
+		function parse(input: string) {
+			const value = Number.parseInt(input, 10);
+			if (Number.isNaN(value)) {
+				return Result.err("INVALID_NUMBER", { input });
+			}
+			return Result.ok("PARSED", value);
+		}
+
+		function half(value: number) {
+			if (value % 2 !== 0) {
+				return Result.err("ODD", { value });
+			}
+			return Result.ok(value / 2);
+		}
+
+		test("should unwrap success payloads", () => {
+			const result = Result.gen(function* ($) {
+				const parsed = yield* $(parse("84"));
+				const halved = yield* $(half(parsed));
+				return Result.ok("HALVED", halved);
+			});
+
+			expect(result).toEqual({ type: "SUCCESS_HALVED", data: 42 });
+			expectTypeOf(result.type).toEqualTypeOf<
+				"ERROR_INVALID_NUMBER" | "ERROR_ODD" | "SUCCESS_HALVED"
+			>();
+		});
+
+		test("should short-circuit on the first error", () => {
+			const steps: string[] = [];
+			const result = Result.gen(function* ($) {
+				try {
+					const parsed = yield* $(parse("7"));
+					steps.push("parsed");
+					const halved = yield* $(half(parsed));
+					steps.push("halved");
+					return Result.ok("HALVED", halved);
+				} finally {
+					steps.push("cleanup");
+				}
+			});
+
+			expect(result).toEqual({ type: "ERROR_ODD", data: { value: 7 } });
+			expect(Result.isResult(result)).toBe(true);
+			expect(steps).toEqual(["parsed", "cleanup"]);
+		});
+
+		test("should unwrap plain results typed with the public aliases", () => {
+			const load = ():
+				| SuccessResultType<"LOADED", number>
+				| ErrorResultType<"MISSING", null> => ({
+				type: "SUCCESS_LOADED",
+				data: 4,
+			});
+			const missing: ErrorResultType<"MISSING", null> = {
+				type: "ERROR_MISSING",
+				data: null,
+			};
+
+			const loaded = Result.gen(function* ($) {
+				const value = yield* $(load());
+				return Result.ok("DOUBLED", value * 2);
+			});
+			const failed = Result.gen(function* ($) {
+				yield* $(missing);
+				return Result.ok("DONE", null);
+			});
+
+			expect(loaded).toEqual({ type: "SUCCESS_DOUBLED", data: 8 });
+			expect(failed).toBe(missing);
+			expectTypeOf(loaded.type).toEqualTypeOf<
+				"ERROR_MISSING" | "SUCCESS_DOUBLED"
+			>();
+		});
+
+		test("genAsync should unwrap awaited results", async () => {
+			const fetchValue = async (input: string) => parse(input);
+
+			const success = await Result.genAsync(async function* ($) {
+				const parsed = yield* $(fetchValue("10"));
+				const halved = yield* $(half(parsed));
+				return Result.ok(halved);
+			});
+			const failure = await Result.genAsync(async function* ($) {
+				const parsed = yield* $(fetchValue("x"));
+				return Result.ok(parsed);
+			});
+
+			expect(success).toEqual({ type: "SUCCESS", data: 5 });
+			expect(failure).toEqual({
+				type: "ERROR_INVALID_NUMBER",
+				data: { input: "x" },
+			});
+			expectTypeOf(success.type).toEqualTypeOf<
+				"ERROR_INVALID_NUMBER" | "ERROR_ODD" | "SUCCESS"
+			>();
+		});
+	});
+
+	describe("Result.try / fromPromise / wrap", () => {
+		const classify = (error: unknown) =>
+			error instanceof TypeError
+				? Result.err("TYPE", error)
+				: Result.err("UNKNOWN", { error });
+
+		test("try should capture returned values and thrown errors", () => {
+			const success = Result.try(
+				() => JSON.parse('{"id":1}') as { id: number },
+			);
+			const failure = Result.try((): unknown => JSON.parse("{"));
+
+			expect(success).toEqual({ type: "SUCCESS", data: { id: 1 } });
+			expect(failure.type).toBe("ERROR");
+			expect(failure.data).toBeInstanceOf(SyntaxError);
+			expectTypeOf(failure).toEqualTypeOf<
+				DefaultSuccessResultType<unknown> | DefaultErrorResultType<unknown>
+			>();
+		});
+
+		test("try should let the classifier choose the error tag", () => {
+			const typeError = Result.try((): number => {
+				throw new TypeError("Not a number");
+			}, classify);
+			const unknownError = Result.try((): number => {
+				throw "boom";
+			}, classify);
+
+			expect(typeError.type).toBe("ERROR_TYPE");
+			expect(unknownError).toEqual({
+				type: "ERROR_UNKNOWN",
+				data: { error: "boom" },
+			});
+			expectTypeOf(typeError.type).toEqualTypeOf<
+				"SUCCESS" | "ERROR_TYPE" | "ERROR_UNKNOWN"
+			>();
+		});
+
+		test("try should return a promise for async functions", async () => {
+			const pending = Result.try(async () => {
+				throw new TypeError("Async failure");
+			}, classify);
+
+			expect(pending).toBeInstanceOf(Promise);
+			const result = await pending;
+			expect(result.type).toBe("ERROR_TYPE");
+			expectTypeOf(pending).resolves.toHaveProperty("type");
+		});
+
+		test("fromPromise should capture resolutions and rejections", async () => {
+			const success = await Result.fromPromise(Promise.resolve(42));
+			const failure = await Result.fromPromise(
+				Promise.reject(new TypeError("Rejected")),
+				classify,
+			);
+
+			expect(success).toEqual({ type: "SUCCESS", data: 42 });
+			expect(failure.type).toBe("ERROR_TYPE");
+			expectTypeOf(failure.type).toEqualTypeOf<
+				"SUCCESS" | "ERROR_TYPE" | "ERROR_UNKNOWN"
+			>();
+		});
+
+		test("wrap should turn throwing functions into result-returning ones", async () => {
+			const safeParse = Result.wrap((input: string): number => {
+				const value = Number(input);
+				if (Number.isNaN(value)) {
+					throw new TypeError(`${input} is not a number`);
+				}
+				return value;
+			}, classify);
+			const safeFetch = Result.wrap(async (id: number) => {
+				if (id < 0) {
+					throw new Error("Negative id");
+				}
+				return { id };
+			});
+
+			expect(safeParse("42")).toEqual({ type: "SUCCESS", data: 42 });
+			expect(safeParse("x").type).toBe("ERROR_TYPE");
+			expect(await safeFetch(1)).toEqual({ type: "SUCCESS", data: { id: 1 } });
+			expect((await safeFetch(-1)).type).toBe("ERROR");
+			expectTypeOf(safeFetch).parameters.toEqualTypeOf<[number]>();
+		});
+	});
+
+	describe("Unwrapping", () => {
+		const getUser = (id: number) =>
+			id === 1
+				? Result.ok("FOUND", { id, name: "Ada" })
+				: Result.err("NOT_FOUND", { message: "User not found" });
+
+		test("unwrap should return the payload or throw a TaggedResultError", () => {
+			expect(Result.unwrap(getUser(1))).toEqual({ id: 1, name: "Ada" });
+			expectTypeOf(Result.unwrap(getUser(1))).toEqualTypeOf<{
+				id: number;
+				name: string;
+			}>();
+
+			const failure = getUser(2);
+			let caught: unknown;
+			try {
+				Result.unwrap(failure);
+			} catch (error) {
+				caught = error;
+			}
+
+			expect(caught).toBeInstanceOf(TaggedResultError);
+			expect(caught).toBeInstanceOf(Error);
+			const error = caught as TaggedResultError;
+			expect(error.name).toBe("TaggedResultError");
+			expect(error.type).toBe("ERROR_NOT_FOUND");
+			expect(error.data).toEqual({ message: "User not found" });
+			expect(error.message).toBe(
+				'Expected a success result but got "ERROR_NOT_FOUND": User not found',
+			);
+			expect(error.cause).toBeUndefined();
+		});
+
+		test("expect should throw with the given message and keep Error payloads as cause", () => {
+			const cause = new TypeError("Bad input");
+
+			expect(() =>
+				Result.expect(Result.err(cause), "Config must load"),
+			).toThrow("Config must load");
+			try {
+				Result.expect(Result.err(cause), "Config must load");
+			} catch (error) {
+				expect((error as TaggedResultError).cause).toBe(cause);
+			}
+			expect(Result.expect(Result.ok(1), "unused")).toBe(1);
+		});
+
+		test("unwrapOr and unwrapOrElse should fall back on error results", () => {
+			expect(Result.unwrapOr(getUser(2), null)).toBeNull();
+			expect(Result.unwrapOr(getUser(1), null)).toEqual({ id: 1, name: "Ada" });
+			expect(
+				Result.unwrapOrElse(getUser(2), (data, result) => {
+					expectTypeOf(data).toEqualTypeOf<{ message: string }>();
+					return `${result.type}: ${data.message}`;
+				}),
+			).toBe("ERROR_NOT_FOUND: User not found");
+			expectTypeOf(Result.unwrapOr(getUser(2), null)).toEqualTypeOf<{
+				id: number;
+				name: string;
+			} | null>();
+		});
+
+		test("unwrapErr should return the error payload or throw on success", () => {
+			expect(Result.unwrapErr(getUser(2))).toEqual({
+				message: "User not found",
+			});
+			expectTypeOf(Result.unwrapErr(getUser(2))).toEqualTypeOf<{
+				message: string;
+			}>();
+			expect(() => Result.unwrapErr(getUser(1))).toThrow(
+				'Expected an error result but got "SUCCESS_FOUND"',
+			);
+		});
+
+		test("fromError should round-trip a TaggedResultError", () => {
+			const failure = getUser(2);
+			try {
+				Result.unwrap(failure);
+			} catch (error) {
+				const result = Result.fromError(error);
+				expect(result).toBe(failure);
+				expect(Result.isErr(result)).toBe(true);
+			}
+
+			const typed = Result.fromError(
+				new TaggedResultError(Result.err("TIMEOUT", { ms: 100 })),
+			);
+			expectTypeOf(typed).toEqualTypeOf<
+				ErrorResultType<"TIMEOUT", { ms: number }>
+			>();
+
+			const unknown = Result.fromError("boom");
+			expect(unknown).toEqual({ type: "ERROR", data: "boom" });
+			expect(Result.isErr(unknown)).toBe(true);
+		});
+	});
+
+	describe("Serialization", () => {
+		class ValidationError extends Error {
+			constructor(
+				message: string,
+				readonly field: string,
+			) {
+				super(message);
+				this.name = "ValidationError";
+			}
+		}
+
+		test("serialize should write a versioned envelope", () => {
+			expect(
+				JSON.parse(Result.serialize(Result.ok("SAVED", { id: 1 }))),
+			).toEqual({
+				"$tagged-result": 1,
+				kind: "ok",
+				type: "SUCCESS_SAVED",
+				data: { id: 1 },
+			});
+		});
+
+		test("serialize should round-trip values JSON cannot represent", () => {
+			const data = {
+				at: new Date("2024-01-02T03:04:05.000Z"),
+				tags: new Set(["a", "b"]),
+				counts: new Map<unknown, unknown>([
+					["x", 1n],
+					[2, undefined],
+				]),
+				missing: undefined,
+				ratio: Number.NaN,
+				list: [undefined, Number.NEGATIVE_INFINITY],
+				$type: "user data",
+			};
+
+			const result = Result.deserialize(
+				Result.serialize(Result.ok("LOADED", data)),
+			);
+
+			expect(result).toEqual({ type: "SUCCESS_LOADED", data });
+			expect("missing" in (result.data as object)).toBe(true);
+			expect(Result.isOk(result)).toBe(true);
+		});
+
+		test("serialize should keep errors, subclasses, causes and properties", () => {
+			const cause = new TypeError("Socket closed");
+			const error = new ValidationError("Invalid email", "email");
+			Object.defineProperty(error, "cause", { value: cause });
+
+			const result = Result.deserialize(
+				Result.serialize(Result.err("INVALID", error)),
+			);
+			const decoded = result.data as ValidationError & { cause: unknown };
+
+			expect(Result.isErr(result)).toBe(true);
+			expect(decoded).toBeInstanceOf(Error);
+			expect(decoded.name).toBe("ValidationError");
+			expect(decoded.message).toBe("Invalid email");
+			expect(decoded.stack).toBe(error.stack);
+			expect(decoded.field).toBe("email");
+			expect(decoded.cause).toBeInstanceOf(TypeError);
+			expect((decoded.cause as Error).message).toBe("Socket closed");
+		});
+
+		test("serialize should keep nested results branded", () => {
+			const combined = Result.collectErrors([
+				Result.err("A", 1),
+				Result.err("B", 2),
+			]);
+			const result = Result.deserialize(Result.serialize(combined));
+			const [first] = result.data as unknown[];
+
+			expect(result).toEqual(combined);
+			expect(Result.isResult(first)).toBe(true);
+			expect(Result.isErr(first as typeof combined)).toBe(true);
+		});
+
+		test("registerCodec should encode domain classes", () => {
+			class Money {
+				constructor(
+					readonly amount: number,
+					readonly currency: string,
+				) {}
+			}
+			const unregister = Result.registerCodec({
+				name: "Money",
+				test: (value) => value instanceof Money,
+				encode: (money: Money) => [money.amount, money.currency] as const,
+				decode: ([amount, currency]) => new Money(amount, currency),
+			});
+
+			try {
+				const text = Result.serialize(Result.ok("PAID", new Money(5, "EUR")));
+				expect(text).toContain('{"$type":"Money","value":[5,"EUR"]}');
+				const result = Result.deserialize(text);
+				expect(result.data).toBeInstanceOf(Money);
+				expect(result.data).toEqual(new Money(5, "EUR"));
+				expect(() =>
+					Result.registerCodec({
+						name: "Money",
+						test: () => false,
+						encode: (value) => value,
+						decode: (value) => value,
+					}),
+				).toThrow(TypeError);
+			} finally {
+				unregister();
+			}
+
+			expect(() =>
+				Result.deserialize(
+					'{"type":"SUCCESS","data":{"$type":"Money","value":[1,"EUR"]}}',
+				),
+			).toThrow('No codec registered for "Money"');
+		});
+
+		test("JSON.stringify should keep the plain output", () => {
+			const result = Result.context(
+				Result.err("FAILED", { at: new Date(0), note: undefined }),
+				"loading",
+			);
+
+			expect(JSON.stringify(result)).toBe(
+				'{"type":"ERROR_FAILED","data":{"at":"1970-01-01T00:00:00.000Z"}}',
+			);
+			expect(JSON.stringify(Result.err(new Error("x")))).toBe(
+				'{"type":"ERROR","data":{}}',
+			);
+		});
+
+		test("serialize and deserialize should reject invalid input", () => {
+			const circular: Record<string, unknown> = {};
+			circular.self = circular;
+
+			expect(() => Result.serialize(Result.ok(circular))).toThrow(
+				"Cannot serialize a circular structure",
+			);
+			expect(() => Result.deserialize('{"data":1}')).toThrow(TypeError);
+			expect(() =>
+				Result.deserialize('{"$tagged-result":2,"type":"ERROR","data":1}'),
+			).toThrow("Unsupported serialized result version 2");
+			expect(() => Result.deserialize('{"type":"DONE","data":1}')).toThrow(
+				'Cannot tell whether "DONE" is a success or an error result',
+			);
+		});
+	});
+
+	describe("Result.parse", () => {
+		// A minimal Standard Schema, as implemented by zod, valibot or arktype
+		const numberSchema = {
+			"~standard": {
+				version: 1 as const,
+				vendor: "test",
+				validate: (value: unknown) =>
+					typeof value === "number"
+						? { value: String(value) }
+						: { issues: [{ message: "Expected a number", path: [] }] },
+				types: { output: "" as string },
+			},
+		};
+		const userSchema = {
+			"~standard": {
+				version: 1 as const,
+				vendor: "test",
+				validate: (value: unknown) =>
+					typeof (value as { name?: unknown })?.name === "string"
+						? { value: value as { name: string } }
+						: {
+								issues: [
+									{ message: "Expected a string", path: [{ key: "name" }] },
+								],
+							},
+				types: { output: {} as { name: string } },
+			},
+		};
+		const schemas = {
+			SUCCESS_USER: userSchema,
+			SUCCESS_COUNT: numberSchema,
+			ERROR_NOT_FOUND: (data: unknown): data is { id: number } =>
+				typeof (data as { id?: unknown })?.id === "number",
+		};
+
+		test("parse should accept matching results and type them precisely", () => {
+			const result = Result.parse(
+				JSON.parse('{"type":"SUCCESS_USER","data":{"name":"Ada"}}'),
+				schemas,
+			);
+
+			expect(result).toEqual({ type: "SUCCESS_USER", data: { name: "Ada" } });
+			expect(Result.isOk(result)).toBe(true);
+			expectTypeOf(result).toEqualTypeOf<
+				| SuccessResultType<"USER", { name: string }>
+				| SuccessResultType<"COUNT", string>
+				| ErrorResultType<"NOT_FOUND", { id: number }>
+				| ErrorResultType<
+						"INVALID_RESULT",
+						{ issues: ParseIssue[]; value: unknown }
+				  >
+			>();
+
+			const missing = Result.parse(
+				{ type: "ERROR_NOT_FOUND", data: { id: 1 } },
+				schemas,
+			);
+			expect(Result.isErr(missing)).toBe(true);
+			expect(missing.data).toEqual({ id: 1 });
+		});
+
+		test("parse should use the output of Standard Schema validators", () => {
+			const result = Result.parse({ type: "SUCCESS_COUNT", data: 3 }, schemas);
+
+			expect(result.data).toBe("3");
+		});
+
+		test("parse should report unknown tags and invalid payloads", () => {
+			const value = { type: "SUCCESS_USER", data: { name: 1 } };
+
+			expect(Result.parse(value, schemas)).toEqual({
+				type: "ERROR_INVALID_RESULT",
+				data: {
+					issues: [{ message: "Expected a string", path: ["data", "name"] }],
+					value,
+				},
+			});
+			expect(
+				Result.parse({ type: "ERROR_NOT_FOUND", data: {} }, schemas).data,
+			).toEqual({
+				issues: [
+					{ message: 'Invalid payload for "ERROR_NOT_FOUND"', path: ["data"] },
+				],
+				value: { type: "ERROR_NOT_FOUND", data: {} },
+			});
+			expect(
+				Result.parse({ type: "toString", data: 1 }, schemas).data,
+			).toMatchObject({
+				issues: [{ message: 'Unknown result tag "toString"', path: ["type"] }],
+			});
+			expect(Result.parse("SUCCESS_USER", schemas).type).toBe(
+				"ERROR_INVALID_RESULT",
+			);
+		});
+
+		test("parseAsync should support asynchronous validators", async () => {
+			const asyncSchemas = {
+				SUCCESS: async (data: unknown) => data === "ok",
+			};
+
+			expect(() =>
+				Result.parse({ type: "SUCCESS", data: "ok" }, asyncSchemas),
+			).toThrow(TypeError);
+			const result = await Result.parseAsync(
+				{ type: "SUCCESS", data: "ok" },
+				asyncSchemas,
+			);
+			expect(result).toEqual({ type: "SUCCESS", data: "ok" });
+			expect(Result.isOk(result)).toBe(true);
+			expect(
+				(await Result.parseAsync({ type: "SUCCESS", data: "no" }, asyncSchemas))
+					.type,
+			).toBe("ERROR_INVALID_RESULT");
+		});
+	});
+
+	describe("HTTP adapters", () => {
+		const createUser = (name: string) =>
+			name === ""
+				? Result.err("VALIDATION", { field: "name" })
+				: name === "taken"
+					? Result.err({ message: "Conflict" })
+					: Result.ok("USER_CREATED", { id: 1, name });
+		const statuses = { SUCCESS_USER_CREATED: 201, ERROR_VALIDATION: 422 };
+		const parsers = {
+			SUCCESS_USER_CREATED: (
+				data: unknown,
+			): data is { id: number; name: string } =>
+				typeof data === "object" && data !== null,
+			ERROR_VALIDATION: (data: unknown): data is { field: string } =>
+				typeof data === "object" && data !== null,
+		};
+
+		test("toResponse should map tags to statuses and encode the result", async () => {
+			const created = Result.toResponse(createUser("Ada"), statuses);
+			const invalid = Result.toResponse(createUser(""), statuses, {
+				headers: { "x-request-id": "42" },
+			});
+			const conflict = Result.toResponse(createUser("taken"), statuses);
+
+			expect(created.status).toBe(201);
+			expect(created.headers.get("content-type")).toBe("application/json");
+			expect(await created.json()).toEqual({
+				"$tagged-result": 1,
+				kind: "ok",
+				type: "SUCCESS_USER_CREATED",
+				data: { id: 1, name: "Ada" },
+			});
+			expect(invalid.status).toBe(422);
+			expect(invalid.headers.get("x-request-id")).toBe("42");
+			expect(conflict.status).toBe(500);
+
+			// @ts-expect-error - ERROR_VALIDATION is missing from the status map
+			Result.toResponse(createUser(""), { SUCCESS_USER_CREATED: 201 });
+		});
+
+		test("fromResponse should round-trip results from toResponse", async () => {
+			const result = await Result.fromResponse(
+				Result.toResponse(createUser("Ada"), statuses),
+				parsers,
+			);
+
+			expect(result).toEqual({
+				type: "SUCCESS_USER_CREATED",
+				data: { id: 1, name: "Ada" },
+			});
+			expect(Result.isOk(result)).toBe(true);
+			expectTypeOf(result.type).toEqualTypeOf<
+				| "SUCCESS_USER_CREATED"
+				| "ERROR_VALIDATION"
+				| "ERROR_INVALID_RESULT"
+				| "ERROR_NETWORK"
+				| "ERROR_INVALID_BODY"
+			>();
+		});
+
+		test("fromResponse should decode encoded payloads", async () => {
+			const response = Result.toResponse(
+				Result.err("FAILED", new RangeError("Too big")),
+				{ ERROR_FAILED: 400 },
+			);
+			const result = await Result.fromResponse(response, {
+				ERROR_FAILED: (data: unknown): data is Error => data instanceof Error,
+			});
+
+			expect(result.data).toBeInstanceOf(RangeError);
+		});
+
+		test("fromResponse should take plain JSON bodies as they are", async () => {
+			const body = { type: "ERROR_VALIDATION", data: { $type: "Date" } };
+			const result = await Result.fromResponse(
+				new Response(JSON.stringify(body), { status: 422 }),
+				parsers,
+			);
+
+			expect(result).toEqual(body);
+		});
+
+		test("fromResponse should report network failures and invalid bodies", async () => {
+			const network = await Result.fromResponse(
+				Promise.reject(new TypeError("fetch failed")),
+				parsers,
+			);
+			const html = await Result.fromResponse(
+				new Response("<h1>Bad Gateway</h1>", { status: 502 }),
+				parsers,
+			);
+			const unknown = await Result.fromResponse(
+				new Response('{"type":"SUCCESS_OTHER","data":1}'),
+				parsers,
+			);
+
+			expect(network.type).toBe("ERROR_NETWORK");
+			expect((network.data as { error: unknown }).error).toBeInstanceOf(
+				TypeError,
+			);
+			expect(html.type).toBe("ERROR_INVALID_BODY");
+			expect(html.data).toMatchObject({
+				status: 502,
+				body: "<h1>Bad Gateway</h1>",
+			});
+			expect(unknown.type).toBe("ERROR_INVALID_RESULT");
+		});
+	});
+
+	describe("Result.retry", () => {
+		type FetchResult =
+			| SuccessResultType<"USER", { id: number }>
+			| ErrorResultType<"NETWORK", { message: string }>
+			| ErrorResultType<"RATE_LIMITED", { retryAfterMs: number }>
+			| ErrorResultType<"NOT_FOUND", { id: number }>;
+
+		const sequence = (...results: FetchResult[]) => {
+			const calls: number[] = [];
+			const fn = async (attempt: number): Promise<FetchResult> => {
+				calls.push(attempt);
+				return results[Math.min(attempt, results.length) - 1];
+			};
+			return { fn, calls };
+		};
+
+		// Runs every timeout right away, recording the requested delays
+		const instantTimer = () => {
+			const delays: number[] = [];
+			return {
+				delays,
+				setTimeout: (callback: () => void, ms: number) => {
+					delays.push(ms);
+					queueMicrotask(callback);
+					return delays.length;
+				},
+				clearTimeout: () => {},
+			};
+		};
+
+		const network = Result.err("NETWORK", { message: "ECONNRESET" });
+		const user = Result.ok("USER", { id: 1 });
+
+		test("retry should retry the listed tags until success", async () => {
+			const { fn, calls } = sequence(network, network, user);
+			const timer = instantTimer();
+
+			const result = await Result.retry(fn, {
+				on: ["NETWORK", "ERROR_RATE_LIMITED"],
+				timer,
+			});
+
+			expect(result).toEqual(user);
+			expect(calls).toEqual([1, 2, 3]);
+			expect(timer.delays).toEqual([100, 200]);
+			expectTypeOf(result.type).toEqualTypeOf<
+				| "SUCCESS_USER"
+				| "ERROR_NOT_FOUND"
+				| "ERROR_RETRY_EXHAUSTED"
+				| "ERROR_ABORTED"
+			>();
+		});
+
+		test("retry should return other errors right away", async () => {
+			const { fn, calls } = sequence(Result.err("NOT_FOUND", { id: 1 }), user);
+
+			const result = await Result.retry(fn, {
+				on: ["NETWORK"],
+				timer: instantTimer(),
+			});
+
+			expect(result.type).toBe("ERROR_NOT_FOUND");
+			expect(calls).toEqual([1]);
+		});
+
+		test("retry should collect every error once the attempts are exhausted", async () => {
+			const limited = Result.err("RATE_LIMITED", { retryAfterMs: 250 });
+			const { fn } = sequence(network, limited);
+			const timer = instantTimer();
+			let time = 1000;
+
+			const result = await Result.retry(fn, {
+				on: ["NETWORK", "RATE_LIMITED"],
+				attempts: 4,
+				backoff: (attempt, error) => {
+					time += 50;
+					return error.type === "ERROR_RATE_LIMITED"
+						? error.data.retryAfterMs
+						: attempt * 10;
+				},
+				jitter: 0.5,
+				random: () => 0.5,
+				now: () => time,
+				timer,
+			});
+
+			expect(result).toEqual({
+				type: "ERROR_RETRY_EXHAUSTED",
+				data: {
+					attempts: 4,
+					errors: [network, limited, limited, limited],
+					elapsedMs: 150,
+				},
+			});
+			expect(timer.delays).toEqual([7.5, 187.5, 187.5]);
+		});
+
+		test("retry should stop when the signal is aborted", async () => {
+			const controller = new AbortController();
+			const { fn, calls } = sequence(network);
+			const cleared: unknown[] = [];
+
+			const pending = Result.retry(fn, {
+				on: ["NETWORK"],
+				signal: controller.signal,
+				timer: {
+					setTimeout: () => "handle",
+					clearTimeout: (handle) => cleared.push(handle),
+				},
+			});
+			await Promise.resolve();
+			controller.abort("shutdown");
+
+			expect(await pending).toEqual({
+				type: "ERROR_ABORTED",
+				data: { reason: "shutdown" },
+			});
+			expect(calls).toEqual([1]);
+			expect(cleared).toEqual(["handle"]);
+
+			const skipped = await Result.retry(fn, {
+				on: ["NETWORK"],
+				signal: controller.signal,
+			});
+			expect(skipped.type).toBe("ERROR_ABORTED");
+			expect(calls).toEqual([1]);
+		});
+
+		test("retry should only accept error tags of the union", () => {
+			const { fn } = sequence(user);
+			// @ts-expect-error - "USER" is not an error tag
+			Result.retry(fn, { on: ["USER"], attempts: 1 });
+		});
+	});
+
+	describe("Result.withTimeout / withSignal", () => {
+		const loaded = Result.ok("LOADED", { id: 1 });
+
+		// Keeps the scheduled callbacks so the test decides when time runs out
+		const manualTimer = () => {
+			const pending = new Map<number, () => void>();
+			let next = 0;
+			return {
+				pending,
+				setTimeout: (callback: () => void) => {
+					pending.set(++next, callback);
+					return next;
+				},
+				clearTimeout: (handle: unknown) => {
+					pending.delete(handle as number);
+				},
+				fire: () => {
+					for (const callback of pending.values()) {
+						callback();
+					}
+				},
+			};
+		};
+
+		test("withTimeout should return the result and clear the timer", async () => {
+			const timer = manualTimer();
+
+			const result = await Result.withTimeout(Promise.resolve(loaded), 50, {
+				timer,
+			});
+
+			expect(result).toBe(loaded);
+			expect(timer.pending.size).toBe(0);
+			expectTypeOf(result).toEqualTypeOf<
+				| SuccessResultType<"LOADED", { id: number }>
+				| ErrorResultType<"TIMEOUT", { ms: number }>
+			>();
+		});
+
+		test("withTimeout should time out and abort the work", async () => {
+			const timer = manualTimer();
+			let signal: AbortSignal | undefined;
+
+			const pending = Result.withTimeout(
+				(workSignal) => {
+					signal = workSignal;
+					return new Promise<typeof loaded>(() => {});
+				},
+				50,
+				{ timer },
+			);
+			timer.fire();
+
+			expect(await pending).toEqual({
+				type: "ERROR_TIMEOUT",
+				data: { ms: 50 },
+			});
+			expect(signal?.aborted).toBe(true);
+			expect((signal?.reason as Error).name).toBe("TimeoutError");
+		});
+
+		test("withTimeout should use real timers by default", async () => {
+			const result = await Result.withTimeout(
+				new Promise<typeof loaded>(() => {}),
+				1,
+			);
+
+			expect(result.type).toBe("ERROR_TIMEOUT");
+		});
+
+		test("withSignal should return the result and remove its listener", async () => {
+			const signal = new AbortController().signal;
+			const remove = vi.spyOn(signal, "removeEventListener");
+
+			const result = await Result.withSignal(async (workSignal) => {
+				expect(workSignal).toBe(signal);
+				return loaded;
+			}, signal);
+
+			expect(result).toBe(loaded);
+			expect(remove).toHaveBeenCalledWith("abort", expect.any(Function));
+		});
+
+		test("withSignal should resolve as soon as the signal aborts", async () => {
+			const controller = new AbortController();
+			let calls = 0;
+			const work = () => {
+				calls++;
+				return new Promise<typeof loaded>(() => {});
+			};
+
+			const pending = Result.withSignal(work, controller.signal);
+			controller.abort("cancelled");
+
+			const result = await pending;
+			expect(result).toEqual({
+				type: "ERROR_ABORTED",
+				data: { reason: "cancelled" },
+			});
+			expectTypeOf(result.type).toEqualTypeOf<
+				"SUCCESS_LOADED" | "ERROR_ABORTED"
+			>();
+
+			await Result.withSignal(work, controller.signal);
+			expect(calls).toBe(1);
+		});
+
+		test("should reject when the work throws synchronously", async () => {
+			const timer = manualTimer();
+			const work = (): typeof loaded => {
+				throw new Error("boom");
+			};
+
+			const timedOut = Result.withTimeout(work, 10, { timer });
+			const aborted = Result.withSignal(work, new AbortController().signal);
+
+			await expect(timedOut).rejects.toThrow("boom");
+			await expect(aborted).rejects.toThrow("boom");
+			expect(timer.pending.size).toBe(0);
+		});
+	});
+
+	describe("Error context", () => {
+		const timeout = Result.err("DB_TIMEOUT", { ms: 5000 });
+
+		test("context should add breadcrumbs without changing the result", () => {
+			const result = Result.context(
+				Result.context(timeout, "loading invoice", { id: 42 }),
+				"rendering invoice page",
+			);
+
+			expect(result).toEqual(timeout);
+			expect(result).not.toBe(timeout);
+			expect(Object.keys(result)).toEqual(["type", "data"]);
+			expect(Result.isErr(result)).toBe(true);
+			expectTypeOf(result).toEqualTypeOf<typeof timeout>();
+			expect(Result.causeChain(result)).toEqual([
+				{
+					type: "ERROR_DB_TIMEOUT",
+					data: { ms: 5000 },
+					context: [
+						{ message: "loading invoice", meta: { id: 42 } },
+						{ message: "rendering invoice page" },
+					],
+				},
+			]);
+			expect(Result.causeChain(timeout)[0].context).toEqual([]);
+		});
+
+		test("context should be curried and skip success results", async () => {
+			const success = Result.ok(1);
+
+			expect(Result.context(success, "unused")).toBe(success);
+			const result = await Promise.resolve(timeout).then(
+				Result.context("loading invoice"),
+			);
+			expect(Result.causeChain(result)[0].context).toEqual([
+				{ message: "loading invoice" },
+			]);
+		});
+
+		test("combinators should keep the breadcrumbs", () => {
+			const result = Result.mapErr(
+				Result.context(timeout, "loading invoice"),
+				(data) => data.ms,
+			);
+
+			expect(Result.causeChain(result)[0]).toEqual({
+				type: "ERROR_DB_TIMEOUT",
+				data: 5000,
+				context: [{ message: "loading invoice" }],
+			});
+		});
+
+		test("withCause should chain results and diagnostic should format them", () => {
+			const cause = Result.context(timeout, "loading invoice", { id: 42 });
+			const result = Result.context(
+				Result.withCause(Result.err("INVOICE_UNAVAILABLE", { id: 42 }), cause),
+				"rendering invoice page",
+			);
+
+			expect(result).toEqual({
+				type: "ERROR_INVOICE_UNAVAILABLE",
+				data: { id: 42 },
+			});
+			expect(Result.causeChain(result).map((link) => link.type)).toEqual([
+				"ERROR_INVOICE_UNAVAILABLE",
+				"ERROR_DB_TIMEOUT",
+			]);
+			expect(Result.diagnostic(result)).toBe(
+				[
+					'ERROR_INVOICE_UNAVAILABLE {"id":42}',
+					"    at rendering invoice page",
+					'Caused by: ERROR_DB_TIMEOUT {"ms":5000}',
+					'    at loading invoice {"id":42}',
+				].join("\n"),
+			);
+			expect(Result.diagnostic(Result.err(new TypeError("Bad input")))).toBe(
+				"ERROR TypeError: Bad input",
+			);
+		});
+
+		test("the chain should survive serialization", () => {
+			const result = Result.withCause(
+				Result.context(Result.err("INVOICE_UNAVAILABLE", { id: 42 }), "page", {
+					at: new Date(0),
+				}),
+				Result.context(timeout, "loading invoice"),
+			);
+
+			const restored = Result.deserialize(Result.serialize(result));
+
+			expect(Result.causeChain(restored)).toEqual(Result.causeChain(result));
+			expect(JSON.parse(JSON.stringify(timeout))).toEqual({
+				type: "ERROR_DB_TIMEOUT",
+				data: { ms: 5000 },
+			});
+		});
+	});
+
+	describe("Tag hierarchy", () => {
+		type AppResult =
+			| SuccessResultType<"DB_SAVED", { id: number }>
+			| ErrorResultType<"DB", { message: string }>
+			| ErrorResultType<"DB_TIMEOUT", { ms: number }>
+			| ErrorResultType<"DB_CONSTRAINT", { constraint: string }>
+			| ErrorResultType<"AUTH_EXPIRED", { at: number }>;
+
+		const results: AppResult[] = [
+			Result.ok("DB_SAVED", { id: 1 }),
+			Result.err("DB", { message: "Down" }),
+			Result.err("DB_TIMEOUT", { ms: 100 }),
+			Result.err("DB_CONSTRAINT", { constraint: "unique_email" }),
+			Result.err("AUTH_EXPIRED", { at: 0 }),
+		];
+
+		test("isUnder should match every tag at or below a path", () => {
+			const tagsUnder = (matches: (result: AppResult) => boolean) =>
+				results.filter(matches).map((result) => result.type);
+
+			expect(tagsUnder((result) => Result.isUnder(result, "DB"))).toEqual([
+				"SUCCESS_DB_SAVED",
+				"ERROR_DB",
+				"ERROR_DB_TIMEOUT",
+				"ERROR_DB_CONSTRAINT",
+			]);
+			expect(tagsUnder((result) => Result.isUnder(result, "ERROR_DB"))).toEqual(
+				["ERROR_DB", "ERROR_DB_TIMEOUT", "ERROR_DB_CONSTRAINT"],
+			);
+			expect(
+				// @ts-expect-error - segments must match as a whole
+				tagsUnder((result) => Result.isUnder(result, "DB_TIME")),
+			).toEqual([]);
+		});
+
+		test("isUnder should narrow the union", () => {
+			const result = results[2];
+
+			if (Result.isUnder(result, "ERROR_DB")) {
+				expectTypeOf(result.type).toEqualTypeOf<
+					"ERROR_DB" | "ERROR_DB_TIMEOUT" | "ERROR_DB_CONSTRAINT"
+				>();
+			}
+			if (Result.isUnder(result, "AUTH")) {
+				expectTypeOf(result.data).toEqualTypeOf<{ at: number }>();
+			}
+			// @ts-expect-error - "PAYMENT" is not a path in the union
+			Result.isUnder(result, "PAYMENT");
+		});
+
+		test("match should accept hierarchical keys, most specific first", () => {
+			const describe = (result: AppResult) =>
+				Result.match(result, {
+					ERROR_DB_TIMEOUT: (data) => `timeout after ${data.ms}ms`,
+					"ERROR_DB_*": (data, result) => {
+						expectTypeOf(result.type).toEqualTypeOf<
+							"ERROR_DB" | "ERROR_DB_TIMEOUT" | "ERROR_DB_CONSTRAINT"
+						>();
+						return `database error ${result.type}`;
+					},
+					"ERROR_*": () => "other error",
+					SUCCESS_DB_SAVED: (data) => `saved ${data.id}`,
+				});
+
+			expect(results.map(describe)).toEqual([
+				"saved 1",
+				"database error ERROR_DB",
+				"timeout after 100ms",
+				"database error ERROR_DB_CONSTRAINT",
+				"other error",
+			]);
+		});
+
+		test("match should require every tag to be covered", () => {
+			const result = results[0];
+
+			Result.match(result, {
+				"SUCCESS_*": () => 1,
+				"ERROR_DB_*": () => 2,
+				ERROR_AUTH_EXPIRED: () => 3,
+			});
+			// @ts-expect-error - ERROR_AUTH_EXPIRED is not handled
+			Result.match(result, { "SUCCESS_*": () => 1, "ERROR_DB_*": () => 2 });
+			Result.match(result, {
+				_: () => 1,
+				// @ts-expect-error - there is no ERROR_PAYMENT hierarchy
+				"ERROR_PAYMENT_*": () => 2,
+			});
+		});
+
+		test("factories should split segments on their separator", () => {
+			const Events = createResult({ separator: ":" });
+			const timeout = Events.err("DB:TIMEOUT", { ms: 100 });
+
+			expect(timeout.type).toBe("ERROR:DB:TIMEOUT");
+			expect(Events.isUnder(timeout, "DB")).toBe(true);
+			expect(Events.isUnder(timeout, "ERROR:DB")).toBe(true);
+			expect(Events.isUnder(timeout, "DB:TIMEOUT")).toBe(true);
+			// @ts-expect-error - segments are separated by ":"
+			expect(Events.isUnder(timeout, "DB_TIMEOUT")).toBe(false);
+		});
+
+		test("factory match should split hierarchical keys on the separator", async () => {
+			const Events = createResult({ separator: ":" });
+			const describe = (
+				result:
+					| FactorySuccessResultType<typeof Events, "DB:SAVED", number>
+					| FactoryErrorResultType<typeof Events, "DB:TIMEOUT", number>
+					| FactoryErrorResultType<typeof Events, "DB_TOOLS", number>,
+			) =>
+				Events.match(result, {
+					"ERROR:DB_*": (data, result) => {
+						expectTypeOf(result.type).toEqualTypeOf<"ERROR:DB:TIMEOUT">();
+						return `database error after ${data}ms`;
+					},
+					"ERROR_*": () => "other error",
+					"SUCCESS_*": (data) => `saved ${data}`,
+				});
+
+			expect(describe(Events.err("DB:TIMEOUT", 100))).toBe(
+				"database error after 100ms",
+			);
+			expect(describe(Events.err("DB_TOOLS", 1))).toBe("other error");
+			expect(describe(Events.ok("DB:SAVED", 1))).toBe("saved 1");
+			expect(
+				await Events.matchAsync(Promise.resolve(Events.err("DB:TIMEOUT", 5)), {
+					"ERROR:DB_*": async (ms) => ms,
+				}),
+			).toBe(5);
+
+			Events.match(Events.err("DB:TIMEOUT", 1), {
+				_: () => 1,
+				// @ts-expect-error - segments are separated by ":"
+				"ERROR_DB_*": () => 2,
+			});
+		});
+	});
+
+	describe("Result.stream", () => {
+		type RowResult =
+			| SuccessResultType<"ROW_PARSED", { id: number }>
+			| ErrorResultType<"BAD_ROW", { line: number }>;
+
+		const row = (line: number): RowResult =>
+			line % 3 === 0
+				? Result.err("BAD_ROW", { line })
+				: Result.ok("ROW_PARSED", { id: line });
+
+		function source(count: number) {
+			const state = { pulled: 0, closed: false };
+			async function* rows(): AsyncGenerator<RowResult> {
+				try {
+					for (let line = 1; line <= count; line++) {
+						state.pulled = line;
+						yield row(line);
+					}
+				} finally {
+					state.closed = true;
+				}
+			}
+			return { state, rows: rows() };
+		}
+
+		async function toArray<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+			const items: T[] = [];
+			for await (const item of iterable) {
+				items.push(item);
+			}
+			return items;
+		}
+
+		test("map should transform successes in order", async () => {
+			const mapped = Result.stream.map(
+				[row(1), row(2), row(3)],
+				async (data) => `#${data.id}`,
+			);
+
+			expectTypeOf(mapped).toEqualTypeOf<
+				AsyncIterable<
+					| SuccessResultType<"ROW_PARSED", string>
+					| ErrorResultType<"BAD_ROW", { line: number }>
+				>
+			>();
+			expect(await toArray(mapped)).toEqual([
+				{ type: "SUCCESS_ROW_PARSED", data: "#1" },
+				{ type: "SUCCESS_ROW_PARSED", data: "#2" },
+				{ type: "ERROR_BAD_ROW", data: { line: 3 } },
+			]);
+		});
+
+		test("map should bound concurrency and keep the order", async () => {
+			let running = 0;
+			let peak = 0;
+			const rows = [1, 2, 3, 4, 5, 6, 7, 8].map((id) =>
+				Result.ok("ROW_PARSED", { id }),
+			);
+			const mapped = Result.stream.map(
+				rows,
+				async (data) => {
+					running++;
+					peak = Math.max(peak, running);
+					await new Promise((resolve) => setTimeout(resolve, 10 - data.id));
+					running--;
+					return data.id * 10;
+				},
+				{ concurrency: 3 },
+			);
+
+			const results = await toArray(mapped);
+
+			expect(peak).toBe(3);
+			expect(results.map((result) => result.data)).toEqual([
+				10, 20, 30, 40, 50, 60, 70, 80,
+			]);
+		});
+
+		test("andThen should chain steps and apply backpressure", async () => {
+			const { state, rows } = source(100);
+			const saved = Result.stream.andThen(
+				rows,
+				(data) =>
+					data.id === 4
+						? Result.err("DB_ERROR", { id: data.id })
+						: Result.ok("ROW_SAVED", data.id),
+				{ concurrency: 2 },
+			);
+
+			const results: string[] = [];
+			for await (const result of saved) {
+				results.push(result.type);
+				if (results.length === 4) {
+					break;
+				}
+			}
+
+			expect(results).toEqual([
+				"SUCCESS_ROW_SAVED",
+				"SUCCESS_ROW_SAVED",
+				"ERROR_BAD_ROW",
+				"ERROR_DB_ERROR",
+			]);
+			expect(state.pulled).toBeLessThanOrEqual(6);
+			await vi.waitFor(() => expect(state.closed).toBe(true));
+		});
+
+		test("curried map and andThen should compose", async () => {
+			const double = Result.stream.map((data: { id: number }) => data.id * 2);
+			const check = Result.stream.andThen((value: number) =>
+				value > 2 ? Result.ok("BIG", value) : Result.err("SMALL", value),
+			);
+
+			expect(await toArray(check(double([row(1), row(2)])))).toEqual([
+				{ type: "ERROR_SMALL", data: 2 },
+				{ type: "SUCCESS_BIG", data: 4 },
+			]);
+		});
+
+		test("map errors should surface when their turn comes", async () => {
+			const { state, rows } = source(10);
+			const mapped = Result.stream.map(
+				rows,
+				(data) => {
+					if (data.id === 2) {
+						throw new Error("boom");
+					}
+					return data;
+				},
+				{ concurrency: 4 },
+			);
+
+			await expect(toArray(mapped)).rejects.toThrow("boom");
+			expect(state.closed).toBe(true);
+		});
+
+		test("takeUntilErr should stop after the first error", async () => {
+			const { state, rows } = source(10);
+
+			expect(
+				(await toArray(Result.stream.takeUntilErr(rows))).map(
+					(result) => result.type,
+				),
+			).toEqual(["SUCCESS_ROW_PARSED", "SUCCESS_ROW_PARSED", "ERROR_BAD_ROW"]);
+			expect(state.pulled).toBe(3);
+			expect(state.closed).toBe(true);
+		});
+
+		test("errorBudget should stop once the budget is exceeded", async () => {
+			const { state, rows } = source(100);
+			const budgeted = Result.stream.errorBudget(rows, { max: 2 });
+
+			const results = await toArray(budgeted);
+
+			expect(results).toHaveLength(9);
+			expect(results.at(-2)).toEqual(Result.ok("ROW_PARSED", { id: 8 }));
+			expect(results.at(-1)).toEqual(
+				Result.err("BUDGET_EXCEEDED", {
+					max: 2,
+					error: Result.err("BAD_ROW", { line: 9 }),
+				}),
+			);
+			expect(state.pulled).toBe(9);
+			expect(state.closed).toBe(true);
+
+			const curried = Result.stream.errorBudget({ max: 0 });
+			expect(
+				(await toArray(curried([row(1), row(3), row(4)]))).map(
+					(result) => result.type,
+				),
+			).toEqual(["SUCCESS_ROW_PARSED", "ERROR_BUDGET_EXCEEDED"]);
+		});
+
+		test("collect should split a sequence into successes and errors", async () => {
+			const [parsed, bad] = await Result.stream.collect(source(6).rows);
+
+			expectTypeOf(parsed).toEqualTypeOf<
+				SuccessResultType<"ROW_PARSED", { id: number }>[]
+			>();
+			expect(parsed.map((result) => result.data.id)).toEqual([1, 2, 4, 5]);
+			expect(bad.map((result) => result.data.line)).toEqual([3, 6]);
+		});
+
+		test("toReadable should only read the source on demand", async () => {
+			const { state, rows } = source(100);
+			const readable = Result.stream.toReadable(rows);
+			const reader = readable.getReader();
+
+			expect(state.pulled).toBe(0);
+			expect(await reader.read()).toEqual({
+				done: false,
+				value: Result.ok("ROW_PARSED", { id: 1 }),
+			});
+			expect(state.pulled).toBe(1);
+
+			await reader.cancel();
+			expect(state.closed).toBe(true);
+		});
+
+		test("web streams should work as sources and through transform", async () => {
+			const { state, rows } = source(100);
+			const output = Result.stream.toReadable(rows).pipeThrough(
+				Result.stream.transform((input: AsyncIterable<RowResult>) =>
+					Result.stream.errorBudget(
+						Result.stream.map(input, (data) => data.id),
+						{ max: 1 },
+					),
+				),
+			);
+
+			const [parsed, failed] = await Result.stream.collect(output);
+
+			expect(parsed.map((result) => result.data)).toEqual([1, 2, 4, 5]);
+			expect(failed.map((result) => result.type)).toEqual([
+				"ERROR_BAD_ROW",
+				"ERROR_BUDGET_EXCEEDED",
+			]);
+			await vi.waitFor(() => expect(state.closed).toBe(true));
+			expect(state.pulled).toBeLessThan(10);
+		});
+	});
+
+	describe("Result.validate", () => {
+		const checkEmail = (email: string) =>
+			email.includes("@")
+				? Result.ok("EMAIL", email)
+				: Result.err("INVALID_EMAIL", { email });
+		const checkAge = (age: number) =>
+			age >= 18 ? Result.ok("AGE", age) : Result.err("TOO_YOUNG", { age });
+		const checkQuantity = (qty: number) =>
+			qty > 0
+				? Result.ok("QUANTITY", qty)
+				: Result.err("NOT_POSITIVE", { qty });
+
+		const validateOrder = (input: {
+			email: string;
+			age: number;
+			items: { qty: number }[];
+		}) =>
+			Result.validate({
+				email: checkEmail(input.email),
+				customer: { age: checkAge(input.age) },
+				items: input.items.map((item) => ({ qty: checkQuantity(item.qty) })),
+			});
+
+		test("should combine the payloads when every field succeeds", () => {
+			const result = validateOrder({
+				email: "ada@example.com",
+				age: 36,
+				items: [{ qty: 1 }, { qty: 2 }],
+			});
+
+			expect(result).toEqual({
+				type: "SUCCESS",
+				data: {
+					email: "ada@example.com",
+					customer: { age: 36 },
+					items: [{ qty: 1 }, { qty: 2 }],
+				},
+			});
+			if (Result.isOk(result)) {
+				expectTypeOf(result.data).toEqualTypeOf<{
+					email: string;
+					customer: { age: number };
+					items: { qty: number }[];
+				}>();
+			}
+		});
+
+		test("should collect every failed field by path", () => {
+			const result = validateOrder({
+				email: "ada",
+				age: 12,
+				items: [{ qty: 1 }, { qty: 0 }, { qty: -1 }],
+			});
+
+			expect(result).toEqual({
+				type: "ERROR_VALIDATION",
+				data: {
+					email: [Result.err("INVALID_EMAIL", { email: "ada" })],
+					"customer.age": [Result.err("TOO_YOUNG", { age: 12 })],
+					"items[1].qty": [Result.err("NOT_POSITIVE", { qty: 0 })],
+					"items[2].qty": [Result.err("NOT_POSITIVE", { qty: -1 })],
+				},
+			});
+			if (Result.isErr(result)) {
+				expectTypeOf(result.data.email).toEqualTypeOf<
+					ErrorResultType<"INVALID_EMAIL", { email: string }>[] | undefined
+				>();
+				expectTypeOf(result.data["items[2].qty"]).toEqualTypeOf<
+					ErrorResultType<"NOT_POSITIVE", { qty: number }>[] | undefined
+				>();
+				// @ts-expect-error - not a field of the shape
+				result.data.name;
+			}
+		});
+
+		test("should support top-level arrays and a custom success tag", () => {
+			expect(
+				Result.validate([checkAge(20), checkAge(30)], { tag: "AGES" }),
+			).toEqual({ type: "SUCCESS_AGES", data: [20, 30] });
+			expect(Result.validate([checkAge(20), checkAge(3)])).toEqual(
+				Result.err("VALIDATION", {
+					"[1]": [Result.err("TOO_YOUNG", { age: 3 })],
+				}),
+			);
+		});
+
+		test("should accept results without the brand", () => {
+			const parsed: ErrorResultType<"TOO_YOUNG", { age: number }> = JSON.parse(
+				'{"type":"ERROR_TOO_YOUNG","data":{"age":3}}',
+			);
+
+			expect(Result.validate({ a: { ...Result.ok(1) } })).toEqual(
+				Result.ok({ a: 1 }),
+			);
+			expect(
+				Result.validate({ age: parsed, name: { ...checkEmail("x") } }),
+			).toEqual(
+				Result.err("VALIDATION", {
+					age: [{ type: "ERROR_TOO_YOUNG", data: { age: 3 } }],
+					name: [Result.err("INVALID_EMAIL", { email: "x" })],
+				}),
+			);
+		});
+	});
+
+	describe("Instrumentation", () => {
+		let stop: () => void = () => {};
+
+		afterEach(() => {
+			stop();
+		});
+
+		test("instrument should report new results until unregistered", () => {
+			const events: string[] = [];
+			stop = Result.instrument({
+				onOk: ({ type, data }) => events.push(`${type} ${data}`),
+				onErr: ({ type, data }) => events.push(`${type} ${data}`),
+			});
+
+			Result.ok("SAVED", 1);
+			Result.err(2);
+			createResult({ namespace: "billing" }).err("DECLINED", 3);
+			stop();
+			Result.ok("SAVED", 4);
+
+			expect(events).toEqual([
+				"SUCCESS_SAVED 1",
+				"ERROR 2",
+				"billing/ERROR_DECLINED 3",
+			]);
+		});
+
+		test("hooks should be sampled", () => {
+			const onErr = vi.fn();
+			const random = vi
+				.fn()
+				.mockReturnValueOnce(0.05)
+				.mockReturnValueOnce(0.5)
+				.mockReturnValueOnce(0.09);
+			stop = Result.instrument({ onErr, sampleRate: 0.1, random });
+
+			Result.err("A", 1);
+			Result.err("B", 2);
+			Result.err("C", 3);
+
+			expect(onErr.mock.calls.map(([event]) => event.type)).toEqual([
+				"ERROR_A",
+				"ERROR_C",
+			]);
+		});
+
+		test("hooks should receive the call site on request", () => {
+			const onOk = vi.fn();
+			stop = Result.instrument({ onOk, callSite: true });
+
+			Result.ok("CREATED", 1);
+
+			expect(onOk).toHaveBeenCalledWith({
+				type: "SUCCESS_CREATED",
+				data: 1,
+				callSite: expect.stringContaining("index.test.ts"),
+			});
+		});
+
+		test("the call site should skip the frames of the library", () => {
+			const onOk = vi.fn();
+			const onErr = vi.fn();
+			stop = Result.instrument({ onOk, onErr, callSite: true });
+			const Users = defineResults({
+				error: { NOT_FOUND: type<{ id: number }>() },
+			});
+
+			Result.all([Result.ok(1)]);
+			Users.err.NOT_FOUND({ id: 1 });
+
+			expect(onOk).toHaveBeenLastCalledWith(
+				expect.objectContaining({
+					type: "SUCCESS",
+					callSite: expect.stringContaining("index.test.ts"),
+				}),
+			);
+			expect(onErr).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: "ERROR_NOT_FOUND",
+					callSite: expect.stringContaining("index.test.ts"),
+				}),
+			);
+		});
+
+		test("results created by a hook should not notify the hooks again", () => {
+			const seen: string[] = [];
+			stop = Result.instrument({
+				onErr: ({ type }) => {
+					seen.push(type);
+					Result.try(() => {
+						throw new Error("export failed");
+					});
+					Result.err("EXPORT_FAILED", type);
+				},
+			});
+
+			Result.err("FAILED", 1);
+			Result.err("FAILED", 2);
+
+			expect(seen).toEqual(["ERROR_FAILED", "ERROR_FAILED"]);
+		});
+
+		test("factory hooks should only see the factory's results", () => {
+			const onErr = vi.fn();
+			const Billing = createResult({ namespace: "billing", hooks: { onErr } });
+
+			Billing.err("DECLINED", { reason: "expired" });
+			Billing.ok("CHARGED", 10);
+			Result.err("DECLINED", { reason: "expired" });
+
+			expect(onErr).toHaveBeenCalledOnce();
+			expect(onErr).toHaveBeenCalledWith({
+				type: "billing/ERROR_DECLINED",
+				data: { reason: "expired" },
+			});
+		});
+
+		test("failing hooks should be logged instead of thrown", () => {
+			const logger = vi.fn();
+			const previous = Result.configure({ logger });
+			stop = Result.instrument({
+				onErr: () => {
+					throw new Error("exporter down");
+				},
+			});
+
+			try {
+				expect(Result.err("TIMEOUT", 1)).toEqual({
+					type: "ERROR_TIMEOUT",
+					data: 1,
+				});
+				expect(logger).toHaveBeenCalledWith(
+					'A result hook failed for "ERROR_TIMEOUT": exporter down',
+				);
+			} finally {
+				Result.configure(previous);
+			}
+		});
+
+		test("withHooks should scope hooks to an async context", async () => {
+			const previous = Result.configure({
+				hookStorage: new AsyncLocalStorage(),
+			});
+			const outer: string[] = [];
+			const inner: string[] = [];
+
+			try {
+				const request = Result.withHooks(
+					{ onErr: ({ type }) => outer.push(type) },
+					async () => {
+						await Promise.resolve();
+						Result.err("FIRST", 1);
+						await Result.withHooks(
+							{ onErr: ({ type }) => inner.push(type) },
+							async () => {
+								await Promise.resolve();
+								Result.err("SECOND", 2);
+							},
+						);
+					},
+				);
+				Result.err("ELSEWHERE", 3);
+				await request;
+			} finally {
+				Result.configure(previous);
+			}
+
+			expect(outer).toEqual(["ERROR_FIRST", "ERROR_SECOND"]);
+			expect(inner).toEqual(["ERROR_SECOND"]);
+			expect(() => Result.withHooks({}, () => 1)).toThrow(TypeError);
+		});
+	});
+
+	describe("Result.mapTags", () => {
+		type InsertResult =
+			| SuccessResultType<"ROW_INSERTED", { id: number }>
+			| ErrorResultType<"UNIQUE_VIOLATION", { column: string }>
+			| ErrorResultType<"CONNECTION_LOST", { host: string }>
+			| ErrorResultType<"TIMEOUT", { ms: number }>;
+
+		const insert = (outcome: InsertResult["type"]): InsertResult => {
+			switch (outcome) {
+				case "SUCCESS_ROW_INSERTED":
+					return Result.ok("ROW_INSERTED", { id: 1 });
+				case "ERROR_UNIQUE_VIOLATION":
+					return Result.err("UNIQUE_VIOLATION", { column: "email" });
+				case "ERROR_CONNECTION_LOST":
+					return Result.err("CONNECTION_LOST", { host: "db" });
+				case "ERROR_TIMEOUT":
+					return Result.err("TIMEOUT", { ms: 100 });
+			}
+		};
+
+		const createUser = (outcome: InsertResult["type"]) =>
+			Result.mapTags(
+				insert(outcome),
+				{
+					UNIQUE_VIOLATION: (data) =>
+						Result.err("EMAIL_TAKEN", { field: data.column }),
+					ERROR_CONNECTION_LOST: (_, result) =>
+						Result.err("UNAVAILABLE", { reason: result.type }),
+					ROW_INSERTED: (row) => Result.ok("USER_CREATED", row.id),
+				},
+				{ passthrough: ["TIMEOUT"] },
+			);
+
+		test("should translate every tag through its entry", () => {
+			expect(createUser("SUCCESS_ROW_INSERTED")).toEqual(
+				Result.ok("USER_CREATED", 1),
+			);
+			expect(createUser("ERROR_UNIQUE_VIOLATION")).toEqual(
+				Result.err("EMAIL_TAKEN", { field: "email" }),
+			);
+			expect(createUser("ERROR_CONNECTION_LOST")).toEqual(
+				Result.err("UNAVAILABLE", { reason: "ERROR_CONNECTION_LOST" }),
+			);
+			expect(createUser("ERROR_TIMEOUT")).toEqual(
+				Result.err("TIMEOUT", { ms: 100 }),
+			);
+		});
+
+		test("should return the exact union of the new tags", () => {
+			expectTypeOf(createUser).returns.toEqualTypeOf<
+				| ErrorResultType<"EMAIL_TAKEN", { field: string }>
+				| ErrorResultType<"UNAVAILABLE", { reason: "ERROR_CONNECTION_LOST" }>
+				| SuccessResultType<"USER_CREATED", number>
+				| ErrorResultType<"TIMEOUT", { ms: number }>
+			>();
+
+			const untouched = Result.mapTags(insert("SUCCESS_ROW_INSERTED"), {
+				UNIQUE_VIOLATION: () => Result.err("CONFLICT", null),
+				CONNECTION_LOST: () => Result.err("CONFLICT", null),
+				TIMEOUT: () => Result.err("CONFLICT", null),
+			});
+			expectTypeOf(untouched).toEqualTypeOf<
+				| ErrorResultType<"CONFLICT", null>
+				| SuccessResultType<"ROW_INSERTED", { id: number }>
+			>();
+		});
+
+		test("should require an entry for every error tag", () => {
+			const result = insert("ERROR_TIMEOUT");
+
+			expect(() =>
+				// @ts-expect-error - TIMEOUT is neither translated nor passed through
+				Result.mapTags(result, {
+					UNIQUE_VIOLATION: () => Result.err("CONFLICT", null),
+					CONNECTION_LOST: () => Result.err("UNAVAILABLE", null),
+				}),
+			).toThrow('No translation for result type "ERROR_TIMEOUT"');
+			Result.mapTags(result, {
+				UNIQUE_VIOLATION: () => Result.err("CONFLICT", null),
+				CONNECTION_LOST: () => Result.err("UNAVAILABLE", null),
+				TIMEOUT: () => Result.err("UNAVAILABLE", null),
+				// @ts-expect-error - not a tag of the input
+				NOT_FOUND: () => Result.err("GONE", null),
+			});
+		});
+
+		test("should throw for errors without an entry at runtime", () => {
+			const untyped = Result.mapTags as (
+				result: unknown,
+				table: unknown,
+			) => unknown;
+
+			expect(() => untyped(Result.err("TIMEOUT", { ms: 1 }), {})).toThrow(
+				'No translation for result type "ERROR_TIMEOUT"',
+			);
+			expect(untyped(Result.ok("SAVED", 1), {})).toEqual(Result.ok("SAVED", 1));
+		});
+	});
+
+	describe("Formatting", () => {
+		const timeout = () => {
+			const error = new Error("connect ETIMEDOUT", {
+				cause: new Error("socket hang up"),
+			});
+			return Result.context(
+				Result.err("DB_TIMEOUT", { ms: 5000, error }),
+				"loading invoice",
+				{ id: 42 },
+			);
+		};
+
+		test("format should show the tag, payload, breadcrumbs and causes", () => {
+			const result = Result.withCause(
+				Result.err("INVOICE_UNAVAILABLE", {
+					id: 42,
+					"retry-after": null,
+					tags: new Set(["billing"]),
+					nested: { a: { b: { c: 1 } } },
+				}),
+				timeout(),
+			);
+
+			const lines = Result.format(result).split("\n");
+
+			expect(lines.slice(0, 16)).toEqual([
+				"ERROR_INVOICE_UNAVAILABLE {",
+				"  id: 42,",
+				'  "retry-after": null,',
+				"  tags: Set(1) {",
+				'    "billing"',
+				"  },",
+				"  nested: {",
+				"    a: {",
+				"      b: [Object]",
+				"    }",
+				"  }",
+				"}",
+				"Caused by: ERROR_DB_TIMEOUT {",
+				"  ms: 5000,",
+				"  error: Error: connect ETIMEDOUT",
+				expect.stringMatching(/^ {6}at .*index\.test\.ts/),
+			]);
+			expect(lines).toContain("    [cause]: Error: socket hang up");
+			expect(lines.slice(-2)).toEqual([
+				"}",
+				'    at loading invoice {"id":42}',
+			]);
+		});
+
+		test("format should honor the depth and colors options", () => {
+			const result = Result.ok("TREE", {
+				a: { b: { c: { d: [1n, undefined] } } },
+			});
+
+			expect(Result.format(result, { depth: 0 })).toBe(
+				"SUCCESS_TREE {\n  a: [Object]\n}",
+			);
+			expect(
+				Result.format(result, { depth: Number.POSITIVE_INFINITY }),
+			).toContain(
+				"        d: [\n          1n,\n          undefined\n        ]",
+			);
+			expect(Result.format(Result.err("X", "y"), { colors: true })).toBe(
+				'\u001b[1m\u001b[31mERROR_X\u001b[39m\u001b[22m \u001b[32m"y"\u001b[39m',
+			);
+		});
+
+		test("format should mark circular references", () => {
+			const node: { name: string; self?: unknown } = { name: "root" };
+			node.self = node;
+
+			expect(Result.format(Result.ok(node))).toBe(
+				'SUCCESS {\n  name: "root",\n  self: [Circular]\n}',
+			);
+		});
+
+		test("results should render through util.inspect", () => {
+			expect(inspect(Result.err("NOT_FOUND", { id: 1 }))).toBe(
+				"ERROR_NOT_FOUND {\n  id: 1\n}",
+			);
+			expect(inspect({ a: { b: { c: Result.ok(1) } } })).toBe(
+				"{ a: { b: { c: [SUCCESS] } } }",
+			);
+		});
+
+		test("toLogObject should produce plain, redacted objects", () => {
+			const result = Result.withCause(
+				Result.err("PAYMENT_DECLINED", {
+					card: { number: "4242424242424242", brand: "visa" },
+					users: [{ email: "ada@example.com", id: 1n }],
+					at: new Date(0),
+				}),
+				timeout(),
+			);
+
+			const logObject = Result.toLogObject(result, {
+				redact: ["card.number", "users[*].email", "error.stack"],
+			});
+
+			expect(logObject).toEqual({
+				type: "ERROR_PAYMENT_DECLINED",
+				kind: "err",
+				data: {
+					card: { number: "[Redacted]", brand: "visa" },
+					users: [{ email: "[Redacted]", id: "1" }],
+					at: "1970-01-01T00:00:00.000Z",
+				},
+				causes: [
+					{
+						type: "ERROR_DB_TIMEOUT",
+						data: {
+							ms: 5000,
+							error: {
+								type: "Error",
+								message: "connect ETIMEDOUT",
+								stack: "[Redacted]",
+								cause: {
+									type: "Error",
+									message: "socket hang up",
+									stack: expect.stringContaining("socket hang up"),
+								},
+							},
+						},
+						context: [{ message: "loading invoice", meta: { id: 42 } }],
+					},
+				],
+			});
+			expect(
+				Result.toLogObject(Result.ok("LOGIN", { password: "hunter2" }), {
+					redact: ["password"],
+					censor: "***",
+				}),
+			).toEqual({
+				type: "SUCCESS_LOGIN",
+				kind: "ok",
+				data: { password: "***" },
+			});
+		});
+	});
+
+	describe("Result.resultify", () => {
+		class NotFoundError extends Error {
+			constructor(readonly id: number) {
+				super(`User ${id} not found`);
+			}
+		}
+
+		class UserRepository {
+			#users = new Map([[1, { id: 1, name: "Ada" }]]);
+			readonly table = "users";
+
+			get size(): number {
+				return this.#users.size;
+			}
+
+			find(id: number): { id: number; name: string } {
+				const user = this.#users.get(id);
+				if (user === undefined) {
+					throw new NotFoundError(id);
+				}
+				return user;
+			}
+
+			async rename(id: number, name: string): Promise<boolean> {
+				this.find(id).name = name;
+				return true;
+			}
+
+			async remove(id: number): Promise<void> {
+				throw new Error(`Cannot remove ${id}`);
+			}
+		}
+
+		const classify = (error: unknown) =>
+			Result.err("DB_ERROR", { message: String(error) });
+
+		test("should return results from sync and async methods", async () => {
+			const users = Result.resultify(new UserRepository());
+
+			expect(users.find(1)).toEqual(Result.ok({ id: 1, name: "Ada" }));
+			expect(users.find(2)).toEqual(Result.err(new NotFoundError(2)));
+			expect(await users.rename(1, "Grace")).toEqual(Result.ok(true));
+			expect(users.find(1)).toEqual(Result.ok({ id: 1, name: "Grace" }));
+
+			expectTypeOf(users.find).toEqualTypeOf<
+				(
+					id: number,
+				) =>
+					| DefaultSuccessResultType<{ id: number; name: string }>
+					| DefaultErrorResultType<unknown>
+			>();
+			expectTypeOf(users.rename).returns.toEqualTypeOf<
+				Promise<
+					DefaultSuccessResultType<boolean> | DefaultErrorResultType<unknown>
+				>
+			>();
+		});
+
+		test("should classify errors and apply per-method overrides", async () => {
+			const users = Result.resultify(new UserRepository(), classify, {
+				find: {
+					tag: "USER_FOUND",
+					classify: (error) =>
+						error instanceof NotFoundError
+							? Result.err("NOT_FOUND", { id: error.id })
+							: classify(error),
+				},
+			});
+
+			const found = users.find(2);
+			expect(found).toEqual(Result.err("NOT_FOUND", { id: 2 }));
+			expect(users.find(1)).toEqual(
+				Result.ok("USER_FOUND", { id: 1, name: "Ada" }),
+			);
+			expect(await users.remove(1)).toEqual(
+				Result.err("DB_ERROR", { message: "Error: Cannot remove 1" }),
+			);
+
+			expectTypeOf(found).toEqualTypeOf<
+				| SuccessResultType<"USER_FOUND", { id: number; name: string }>
+				| ErrorResultType<"NOT_FOUND", { id: number }>
+				| ErrorResultType<"DB_ERROR", { message: string }>
+			>();
+			expectTypeOf(users.remove).returns.toEqualTypeOf<
+				Promise<
+					| DefaultSuccessResultType<void>
+					| ErrorResultType<"DB_ERROR", { message: string }>
+				>
+			>();
+
+			// @ts-expect-error - only methods can be overridden
+			Result.resultify(new UserRepository(), classify, { table: {} });
+		});
+
+		test("should pass getters and other properties through", () => {
+			const repository = new UserRepository();
+			const users = Result.resultify(repository, classify);
+
+			expect(users.size).toBe(1);
+			expect(users.table).toBe("users");
+			expect(String(users)).toBe("[object Object]");
+			expect(users.find).toBe(users.find);
+			expect(users).toBeInstanceOf(UserRepository);
+
+			expectTypeOf(users.size).toEqualTypeOf<number>();
+		});
+	});
+
+	describe("Collection combinators", () => {
+		type UserResult =
+			| SuccessResultType<"USER_FOUND", { name: string }>
+			| ErrorResultType<"NOT_FOUND", { id: number }>;
+		type CountResult =
+			| DefaultSuccessResultType<number>
+			| ErrorResultType<"COUNT_FAILED", { reason: string }>;
+
+		const user = (id: number): UserResult =>
+			id > 0
+				? Result.ok("USER_FOUND", { name: `User ${id}` })
+				: Result.err("NOT_FOUND", { id });
+		const count = (value: number): CountResult =>
+			value >= 0
+				? Result.ok(value)
+				: Result.err("COUNT_FAILED", { reason: "negative" });
+
+		test("all should keep tuple positions typed", () => {
+			const result = Result.all([user(1), count(3)]);
+
+			expect(result).toEqual({
+				type: "SUCCESS",
+				data: [{ name: "User 1" }, 3],
+			});
+			if (Result.isOk(result)) {
+				expectTypeOf(result.data).toEqualTypeOf<[{ name: string }, number]>();
+			}
+			expectTypeOf(result.type).toEqualTypeOf<
+				"SUCCESS" | "ERROR_NOT_FOUND" | "ERROR_COUNT_FAILED"
+			>();
+		});
+
+		test("all should return the first error", () => {
+			const result = Result.all([user(1), user(-1), count(-1)]);
+
+			expect(result).toEqual({ type: "ERROR_NOT_FOUND", data: { id: -1 } });
+		});
+
+		test("all should support records and a custom success tag", () => {
+			const result = Result.all(
+				{ owner: user(1), total: count(2) },
+				{ tag: "ALL_LOADED" },
+			);
+
+			expect(result).toEqual({
+				type: "SUCCESS_ALL_LOADED",
+				data: { owner: { name: "User 1" }, total: 2 },
+			});
+			if (Result.isTag(result, "ALL_LOADED")) {
+				expectTypeOf(result.data).toEqualTypeOf<{
+					owner: { name: string };
+					total: number;
+				}>();
+			}
+		});
+
+		test("collectErrors should accumulate every error", () => {
+			const failed = Result.collectErrors([user(-1), user(2), count(-5)], {
+				errorTag: "BATCH_FAILED",
+			});
+			const succeeded = Result.collectErrors([user(1), user(2)]);
+
+			expect(failed.type).toBe("ERROR_BATCH_FAILED");
+			expect(failed.data).toEqual([
+				{ type: "ERROR_NOT_FOUND", data: { id: -1 } },
+				{ type: "ERROR_COUNT_FAILED", data: { reason: "negative" } },
+			]);
+			expect(succeeded).toEqual({
+				type: "SUCCESS",
+				data: [{ name: "User 1" }, { name: "User 2" }],
+			});
+		});
+
+		test("partition should split successes and failures", () => {
+			const [found, missing] = Result.partition([user(1), user(-2), user(3)]);
+
+			expect(found.map((result) => result.data.name)).toEqual([
+				"User 1",
+				"User 3",
+			]);
+			expect(missing.map((result) => result.data.id)).toEqual([-2]);
+			expectTypeOf(missing).toEqualTypeOf<
+				ErrorResultType<"NOT_FOUND", { id: number }>[]
+			>();
+		});
+
+		test("any should return the first success or every error", () => {
+			const found = Result.any([user(-1), user(2), user(3)]);
+			const missing = Result.any([user(-1), user(-2)], {
+				errorTag: "NONE_FOUND",
+			});
+
+			expect(found).toEqual({
+				type: "SUCCESS_USER_FOUND",
+				data: { name: "User 2" },
+			});
+			expect(missing.type).toBe("ERROR_NONE_FOUND");
+			expect(missing.data).toHaveLength(2);
+			expectTypeOf(missing.type).toEqualTypeOf<
+				"SUCCESS_USER_FOUND" | "ERROR_NONE_FOUND"
+			>();
+		});
+
+		test("async variants should settle promises and task functions", async () => {
+			const loaded = await Result.allAsync(
+				[Promise.resolve(user(1)), async () => count(4), count(5)],
+				{ tag: "ALL_LOADED" },
+			);
+			const collected = await Result.collectErrorsAsync({
+				first: Promise.resolve(user(-1)),
+				second: async () => user(-2),
+			});
+			const [found, missing] = await Result.partitionAsync([
+				async () => user(1),
+				Promise.resolve(user(-1)),
+			]);
+			const first = await Result.anyAsync([
+				async () => user(-1),
+				async () => user(7),
+			]);
+
+			expect(loaded).toEqual({
+				type: "SUCCESS_ALL_LOADED",
+				data: [{ name: "User 1" }, 4, 5],
+			});
+			expect(collected.type).toBe("ERROR");
+			expect(collected.data).toHaveLength(2);
+			expect(found).toHaveLength(1);
+			expect(missing).toHaveLength(1);
+			expect(first).toEqual({
+				type: "SUCCESS_USER_FOUND",
+				data: { name: "User 7" },
+			});
+			if (Result.isOk(loaded)) {
+				expectTypeOf(loaded.data).toEqualTypeOf<
+					[{ name: string }, number, number]
+				>();
+			}
+		});
+
+		test("async variants should respect the concurrency limit", async () => {
+			let running = 0;
+			let peak = 0;
+			const started: number[] = [];
+			const task = (id: number) => async () => {
+				started.push(id);
+				running++;
+				peak = Math.max(peak, running);
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				running--;
+				return user(id === 3 ? -id : id);
+			};
+
+			const result = await Result.allAsync([1, 2, 3, 4, 5, 6].map(task), {
+				concurrency: 2,
+			});
+
+			expect(result).toEqual({ type: "ERROR_NOT_FOUND", data: { id: -3 } });
+			expect(peak).toBe(2);
+			expect(started).not.toContain(6);
+		});
+	});
+
+	describe("Tag validation", () => {
+		const messages: string[] = [];
+		let previous: ReturnType<typeof Result.configure>;
+
+		beforeEach(() => {
+			messages.length = 0;
+			previous = Result.configure({
+				tagValidation: "warn",
+				logger: (message) => messages.push(message),
+			});
+		});
+
+		afterEach(() => {
+			Result.configure(previous);
+		});
+
+		test("should reject already prefixed tags at compile time", () => {
+			// @ts-expect-error - the ERROR_ prefix is added automatically
+			Result.err("ERROR_VALIDATION", { field: "email" });
+			// @ts-expect-error - the SUCCESS_ prefix is added automatically
+			Result.ok("SUCCESS_DATA_LOADED", { items: [] });
+			// @ts-expect-error - tags must be uppercase
+			Result.ok("created", { id: 1 });
+		});
+
+		test("should normalize invalid tags and warn in warn mode", () => {
+			const prefixed = Result.err("ERROR_VALIDATION" as never, null);
+			const lowercase = Result.ok("user created" as never, null);
+			const empty = Result.err("" as never, null);
+
+			expect(prefixed.type).toBe("ERROR_VALIDATION");
+			expect(lowercase.type).toBe("SUCCESS_USER_CREATED");
+			expect(empty.type).toBe("ERROR");
+			expect(messages).toEqual([
+				'Invalid result tag "ERROR_VALIDATION": the SUCCESS_/ERROR_ prefix is added automatically. Using "ERROR_VALIDATION" instead.',
+				'Invalid result tag "user created": tags must be SCREAMING_SNAKE_CASE. Using "SUCCESS_USER_CREATED" instead.',
+				'Invalid result tag "": tags must not be empty. Using "ERROR" instead.',
+			]);
+		});
+
+		test("should leave valid tags untouched", () => {
+			expect(Result.ok("ERRORS_FOUND", 2).type).toBe("SUCCESS_ERRORS_FOUND");
+			expect(Result.err("HTTP_404", null).type).toBe("ERROR_HTTP_404");
+			expect(messages).toEqual([]);
+		});
+
+		test("should throw in strict mode", () => {
+			Result.configure({ tagValidation: "strict" });
+
+			expect(() => Result.ok("SUCCESS_X" as never, null)).toThrow(
+				new TypeError(
+					'Invalid result tag "SUCCESS_X": the SUCCESS_/ERROR_ prefix is added automatically',
+				),
+			);
+			expect(() => Result.err("not-valid" as never, null)).toThrow(TypeError);
+		});
+
+		test("should skip the checks when turned off", () => {
+			Result.configure({ tagValidation: "off" });
+
+			expect(Result.err("ERROR_X" as never, null).type).toBe("ERROR_ERROR_X");
+			expect(messages).toEqual([]);
+		});
+	});
+});
+
+describe("defineResults", () => {
+	interface User {
+		id: string;
+		name: string;
+	}
+
+	const UserResults = defineResults({
+		success: { USER_CREATED: type<User>(), USER_DELETED: type<void>() },
+		error: {
+			NOT_FOUND: type<{ id: string }>(),
+			VALIDATION: type<{ field: string }>(),
+		},
+	});
+	type UserResult = typeof UserResults.Type;
+
+	test("should build tagged results from the catalog", () => {
+		const created = UserResults.ok.USER_CREATED({ id: "1", name: "Alice" });
+		const deleted = UserResults.ok.USER_DELETED();
+		const missing = UserResults.err.NOT_FOUND({ id: "2" });
+
+		expect(created).toEqual({
+			type: "SUCCESS_USER_CREATED",
+			data: { id: "1", name: "Alice" },
+		});
+		expect(deleted.type).toBe("SUCCESS_USER_DELETED");
+		expect(missing).toEqual({ type: "ERROR_NOT_FOUND", data: { id: "2" } });
+		expect(Result.isResult(missing)).toBe(true);
+	});
+
+	test("should infer the union of every result", () => {
+		expectTypeOf<UserResult>().toEqualTypeOf<
+			| SuccessResultType<"USER_CREATED", User>
+			| SuccessResultType<"USER_DELETED", void>
+			| ErrorResultType<"NOT_FOUND", { id: string }>
+			| ErrorResultType<"VALIDATION", { field: string }>
+		>();
+
+		const handle = (result: UserResult) =>
+			Result.match(result, {
+				SUCCESS_USER_CREATED: (user) => user.name,
+				SUCCESS_USER_DELETED: () => "deleted",
+				"ERROR_*": () => "failed",
+			});
+		expect(handle(UserResults.ok.USER_CREATED({ id: "1", name: "Bob" }))).toBe(
+			"Bob",
+		);
+	});
+
+	test("should expose the runtime list of tags", () => {
+		expect(UserResults.tags).toEqual({
+			success: ["SUCCESS_USER_CREATED", "SUCCESS_USER_DELETED"],
+			error: ["ERROR_NOT_FOUND", "ERROR_VALIDATION"],
+		});
+		expectTypeOf(UserResults.tags.error).toEqualTypeOf<
+			("ERROR_NOT_FOUND" | "ERROR_VALIDATION")[]
+		>();
+	});
+
+	test("should reject tags that are not in the catalog", () => {
+		expect(() =>
+			// @ts-expect-error - USER_UPDATED is not part of the catalog
+			UserResults.ok.USER_UPDATED({ id: "1", name: "Alice" }),
+		).toThrow(TypeError);
+		// @ts-expect-error - the payload must match the catalog
+		UserResults.err.NOT_FOUND({ field: "id" });
+	});
+});
+
+describe("createResult", () => {
+	const Billing = createResult({ namespace: "billing" });
+	const Legacy = createResult({
+		successPrefix: "OK",
+		errorPrefix: "FAIL",
+		separator: "-",
+	});
+
+	test("should create results in the custom tag layout", () => {
+		const charged = Billing.ok("CHARGED", { amount: 10 });
+		const declined = Billing.err("CARD_DECLINED", { reason: "expired" });
+		const saved = Legacy.ok("SAVED", 1);
+		const failed = Legacy.err(new Error("boom"));
+
+		expect(charged.type).toBe("billing/SUCCESS_CHARGED");
+		expect(declined.type).toBe("billing/ERROR_CARD_DECLINED");
+		expect(saved.type).toBe("OK-SAVED");
+		expect(failed.type).toBe("FAIL");
+		expectTypeOf(declined).toEqualTypeOf<
+			FactoryErrorResultType<
+				typeof Billing,
+				"CARD_DECLINED",
+				{ reason: string }
+			>
+		>();
+		expectTypeOf(declined.type).toEqualTypeOf<"billing/ERROR_CARD_DECLINED">();
+		expectTypeOf(failed).toEqualTypeOf<
+			FactoryDefaultErrorResultType<typeof Legacy, Error>
+		>();
+	});
+
+	test("should narrow with the factory guards", () => {
+		const result = Legacy.ok("SAVED", 1) as
+			| FactorySuccessResultType<typeof Legacy, "SAVED", number>
+			| FactoryErrorResultType<typeof Legacy, "CONFLICT", { id: number }>;
+
+		expect(Legacy.isOk(result)).toBe(true);
+		expect(Legacy.isTag(result, "SAVED")).toBe(true);
+		expect(Legacy.isTag(result, "OK-SAVED")).toBe(true);
+		if (Legacy.isErr(result)) {
+			expectTypeOf(result.data).toEqualTypeOf<{ id: number }>();
+		}
+		expect(Legacy.isErr({ type: "FAIL-CONFLICT", data: null })).toBe(true);
+	});
+
+	test("should work with the combinators of Result", () => {
+		const result = Billing.err("CARD_DECLINED", { reason: "expired" }) as
+			| FactorySuccessResultType<typeof Billing, "CHARGED", { amount: number }>
+			| FactoryErrorResultType<
+					typeof Billing,
+					"CARD_DECLINED",
+					{ reason: string }
+			  >;
+
+		const mapped = Result.mapErr(result, (error) => error.reason);
+		const message = Result.match(result, {
+			"billing/SUCCESS_CHARGED": (charge) => `charged ${charge.amount}`,
+			"ERROR_*": (error) => `declined: ${error.reason}`,
+		});
+
+		expect(mapped.data).toBe("expired");
+		expect(message).toBe("declined: expired");
+		expect(Result.isErr(result)).toBe(true);
+	});
+
+	test("should validate tags against the custom prefixes", () => {
+		const previous = Result.configure({ tagValidation: "strict" });
+		try {
+			// @ts-expect-error - the OK- prefix is added automatically
+			expect(() => Legacy.ok("OK-SAVED", 1)).toThrow(
+				'Invalid result tag "OK-SAVED": the OK-/FAIL- prefix is added automatically',
+			);
+		} finally {
+			Result.configure(previous);
+		}
+	});
+
+	test("should be the factory behind Result", () => {
+		const Default = createResult();
+
+		expect(Default.ok("USER_CREATED", 1)).toEqual(Result.ok("USER_CREATED", 1));
+		expect(Result.shape).toEqual(Default.shape);
+		expectTypeOf(Default.ok("USER_CREATED", 1)).toEqualTypeOf<
+			SuccessResultType<"USER_CREATED", number>
+		>();
+	});
 });
 
 describe("README Examples", () => {
@@ -193,8 +2906,8 @@ describe("README Examples", () => {
 			expect(result1.data).toEqual({ value: 42 });
 
 			// Using custom type
-			const result2 = Result.ok("SUCCESS_DATA_LOADED", { items: [] });
-			expect(result2.type).toBe("SUCCESS_SUCCESS_DATA_LOADED");
+			const result2 = Result.ok("DATA_LOADED", { items: [] });
+			expect(result2.type).toBe("SUCCESS_DATA_LOADED");
 			expect(result2.data).toEqual({ items: [] });
 		});
 
@@ -205,8 +2918,8 @@ describe("README Examples", () => {
 			expect(result1.data).toEqual({ message: "Something went wrong" });
 
 			// Using custom type
-			const result2 = Result.err("ERROR_NOT_FOUND", { resourceId: "user-123" });
-			expect(result2.type).toBe("ERROR_ERROR_NOT_FOUND");
+			const result2 = Result.err("NOT_FOUND", { resourceId: "user-123" });
+			expect(result2.type).toBe("ERROR_NOT_FOUND");
 			expect(result2.data).toEqual({ resourceId: "user-123" });
 		});
 	});
@@ -445,13 +3158,13 @@ describe("README Examples", () => {
 		test("exhaustive checking with switch statements", () => {
 			type UserOperationResult =
 				| SuccessResultType<
-					"USER_CREATED" | "USER_UPDATED",
-					{ id: number; name: string }
-				>
+						"USER_CREATED" | "USER_UPDATED",
+						{ id: number; name: string }
+				  >
 				| ErrorResultType<
-					"USER_NOT_FOUND" | "VALIDATION_ERROR" | "PERMISSION_DENIED",
-					{ message: string }
-				>;
+						"USER_NOT_FOUND" | "VALIDATION_ERROR" | "PERMISSION_DENIED",
+						{ message: string }
+				  >;
 
 			function handleResult(result: UserOperationResult) {
 				switch (result.type) {
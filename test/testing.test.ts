@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, expectTypeOf, test } from "vitest";
+import { Result, TaggedResultError } from "../src/index";
+import type { ErrorResultType, SuccessResultType } from "../src/index";
+import { assertErr, assertOk, resultMatchers } from "../src/testing";
+
+const createUser = (name: string) =>
+	name === ""
+		? Result.err("VALIDATION", { field: "name", message: "Required" })
+		: Result.ok("USER_CREATED", { id: 1, name });
+
+beforeAll(() => {
+	expect.extend(resultMatchers);
+});
+
+describe("Testing matchers", () => {
+	test("toBeOk and toBeErr should check the result family", () => {
+		expect(createUser("Ada")).toBeOk();
+		expect(createUser("")).toBeErr();
+		expect(createUser("")).not.toBeOk();
+		expect({ type: "SUCCESS", data: 1 }).toBeOk();
+		expect("SUCCESS").not.toBeOk();
+
+		expect(() => expect(createUser("")).toBeOk()).toThrow(
+			/Expected a success result[\s\S]*ERROR_VALIDATION/,
+		);
+	});
+
+	test("toBeResult should check the tag and payload", () => {
+		expect(createUser("Ada")).toBeResult("USER_CREATED", {
+			id: 1,
+			name: "Ada",
+		});
+		expect(createUser("Ada")).toBeResult("SUCCESS_USER_CREATED");
+		expect(createUser("Ada")).toBeResult("USER_CREATED", {
+			id: expect.any(Number),
+			name: "Ada",
+		});
+		expect(createUser("Ada")).not.toBeResult("USER_CREATED", { id: 2 });
+
+		expect(() =>
+			expect(createUser("Ada")).toBeResult("USER_CREATED", {
+				id: 1,
+				name: "Grace",
+			}),
+		).toThrow(/-\s+"name": "Grace",\n\+\s+"name": "Ada",\n\s+},\n\s+"type"/);
+	});
+
+	test("toHaveTag should accept any of the given tags", () => {
+		expect(createUser("")).toHaveTag("VALIDATION");
+		expect(createUser("")).toHaveTag("NOT_FOUND", "ERROR_VALIDATION");
+		expect(createUser("")).not.toHaveTag("USER_CREATED");
+
+		expect(() => expect(createUser("")).toHaveTag("NOT_FOUND")).toThrow(
+			'Expected a result tagged "NOT_FOUND"',
+		);
+	});
+
+	test("toBeErrWith should match part of the error payload", () => {
+		expect(createUser("")).toBeErrWith("VALIDATION", { field: "name" });
+		expect(createUser("")).toBeErrWith("VALIDATION");
+		expect(createUser("")).not.toBeErrWith("VALIDATION", { field: "email" });
+		expect(Result.ok("VALIDATION", { field: "name" })).not.toBeErrWith(
+			"VALIDATION",
+		);
+		expect(
+			Result.err("NESTED", { error: { code: 1, detail: "x" } }),
+		).toBeErrWith("NESTED", { error: { code: 1 } });
+	});
+
+	test("asymmetric matchers should be available", () => {
+		expect({ user: createUser("Ada") }).toEqual({
+			user: expect.toBeResult("USER_CREATED"),
+		});
+	});
+});
+
+describe("Testing assertions", () => {
+	test("assertOk should narrow the result or throw", () => {
+		const result = createUser("Ada");
+		assertOk(result);
+		expectTypeOf(result).toEqualTypeOf<
+			SuccessResultType<"USER_CREATED", { id: number; name: string }>
+		>();
+		expect(result.data.id).toBe(1);
+
+		expect(() => assertOk(createUser(""))).toThrow(TaggedResultError);
+		expect(() => assertOk(createUser(""))).toThrow(
+			'Expected a success result but got "ERROR_VALIDATION" with data {"field":"name","message":"Required"}',
+		);
+	});
+
+	test("assertErr should narrow the result or throw", () => {
+		const result = createUser("");
+		assertErr(result);
+		expectTypeOf(result).toEqualTypeOf<
+			ErrorResultType<"VALIDATION", { field: string; message: string }>
+		>();
+
+		expect(() => assertErr(createUser("Ada"), "Should fail")).toThrow(
+			"Should fail",
+		);
+	});
+});
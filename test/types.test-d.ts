@@ -0,0 +1,168 @@
+import { describe, expectTypeOf, test } from "vitest";
+import type { Result } from "../src/index";
+import type {
+	DataOf,
+	DefaultErrorResultType,
+	DefaultSuccessResultType,
+	ErrorOf,
+	ErrorResultType,
+	InferResult,
+	MergeResults,
+	ReplaceError,
+	ResultType,
+	ResultsUnder,
+	StripPrefix,
+	SuccessOf,
+	SuccessResultType,
+	TagPaths,
+	TagSegments,
+	TagsOf,
+} from "../src/index";
+
+type User = { id: number; name: string };
+
+type UserResult =
+	| SuccessResultType<"USER_FOUND", User>
+	| ErrorResultType<"NOT_FOUND", { id: number }>
+	| ErrorResultType<"FORBIDDEN", { reason: string }>;
+
+declare function getUser(id: number): Promise<UserResult>;
+declare function parseId(input: string): ReturnType<typeof Result.ok<number>>;
+
+describe("Type utilities", () => {
+	test("ResultType should describe a result with an arbitrary tag", () => {
+		expectTypeOf<ResultType<"SUCCESS_USER_FOUND", User>>().toEqualTypeOf<
+			SuccessResultType<"USER_FOUND", User>
+		>();
+		expectTypeOf<ResultType<"ERROR", string>>().toEqualTypeOf<
+			DefaultErrorResultType<string>
+		>();
+	});
+
+	test("the public result types should accept plain objects", () => {
+		const created: SuccessResultType<"USER_FOUND", User> = {
+			type: "SUCCESS_USER_FOUND",
+			data: { id: 1, name: "Alice" },
+		};
+		const parsed: { type: "ERROR_NOT_FOUND"; data: { id: number } } =
+			JSON.parse('{"type":"ERROR_NOT_FOUND","data":{"id":1}}');
+		const missing: ErrorResultType<"NOT_FOUND", { id: number }> = parsed;
+
+		expectTypeOf(created).toMatchTypeOf<UserResult>();
+		expectTypeOf(missing).toMatchTypeOf<UserResult>();
+		expectTypeOf<{
+			type: "SUCCESS";
+			data: number;
+		}>().toMatchTypeOf<DefaultSuccessResultType<number>>();
+		expectTypeOf<{
+			type: "ERROR";
+			data: string;
+		}>().toMatchTypeOf<DefaultErrorResultType<string>>();
+	});
+
+	test("SuccessOf and ErrorOf should narrow a union to one family", () => {
+		expectTypeOf<SuccessOf<UserResult>>().toEqualTypeOf<
+			SuccessResultType<"USER_FOUND", User>
+		>();
+		expectTypeOf<ErrorOf<UserResult>>().toEqualTypeOf<
+			| ErrorResultType<"NOT_FOUND", { id: number }>
+			| ErrorResultType<"FORBIDDEN", { reason: string }>
+		>();
+	});
+
+	test("TagsOf and DataOf should read tags and payloads", () => {
+		expectTypeOf<TagsOf<UserResult>>().toEqualTypeOf<
+			"SUCCESS_USER_FOUND" | "ERROR_NOT_FOUND" | "ERROR_FORBIDDEN"
+		>();
+		expectTypeOf<DataOf<UserResult, "ERROR_NOT_FOUND">>().toEqualTypeOf<{
+			id: number;
+		}>();
+		expectTypeOf<DataOf<UserResult, "USER_FOUND">>().toEqualTypeOf<User>();
+		expectTypeOf<DataOf<UserResult, "NOT_FOUND" | "FORBIDDEN">>().toEqualTypeOf<
+			{ id: number } | { reason: string }
+		>();
+		// @ts-expect-error - "MISSING" is not a tag of the union
+		expectTypeOf<DataOf<UserResult, "MISSING">>();
+	});
+
+	test("StripPrefix should remove family prefixes only", () => {
+		expectTypeOf<StripPrefix<TagsOf<UserResult>>>().toEqualTypeOf<
+			"USER_FOUND" | "NOT_FOUND" | "FORBIDDEN"
+		>();
+		expectTypeOf<StripPrefix<"SUCCESS">>().toEqualTypeOf<"SUCCESS">();
+	});
+
+	test("InferResult should unwrap functions and promises", () => {
+		expectTypeOf<InferResult<typeof getUser>>().toEqualTypeOf<UserResult>();
+		expectTypeOf<InferResult<typeof parseId>>().toEqualTypeOf<
+			DefaultSuccessResultType<number>
+		>();
+		expectTypeOf<
+			InferResult<Promise<UserResult>>
+		>().toEqualTypeOf<UserResult>();
+	});
+
+	test("MergeResults should combine payloads of shared tags", () => {
+		type Merged = MergeResults<
+			UserResult,
+			| ErrorResultType<"NOT_FOUND", { slug: string }>
+			| DefaultErrorResultType<Error>
+		>;
+
+		expectTypeOf<DataOf<Merged, "ERROR_NOT_FOUND">>().toEqualTypeOf<
+			{ id: number } | { slug: string }
+		>();
+		expectTypeOf<TagsOf<Merged>>().toEqualTypeOf<
+			"SUCCESS_USER_FOUND" | "ERROR_NOT_FOUND" | "ERROR_FORBIDDEN" | "ERROR"
+		>();
+		expectTypeOf<SuccessOf<Merged>>().toEqualTypeOf<
+			SuccessResultType<"USER_FOUND", User>
+		>();
+	});
+
+	test("ReplaceError should swap one error member", () => {
+		type Replaced = ReplaceError<
+			UserResult,
+			"NOT_FOUND",
+			ErrorResultType<"USER_MISSING", { id: number }>
+		>;
+
+		expectTypeOf<Replaced>().toEqualTypeOf<
+			| SuccessResultType<"USER_FOUND", User>
+			| ErrorResultType<"USER_MISSING", { id: number }>
+			| ErrorResultType<"FORBIDDEN", { reason: string }>
+		>();
+		expectTypeOf<
+			ReplaceError<UserResult, "ERROR_FORBIDDEN", DefaultErrorResultType<null>>
+		>().toEqualTypeOf<
+			| SuccessResultType<"USER_FOUND", User>
+			| ErrorResultType<"NOT_FOUND", { id: number }>
+			| DefaultErrorResultType<null>
+		>();
+		// @ts-expect-error - success tags cannot be replaced
+		expectTypeOf<ReplaceError<UserResult, "USER_FOUND", UserResult>>();
+	});
+
+	test("TagSegments and TagPaths should split tags into a hierarchy", () => {
+		expectTypeOf<TagSegments<"ERROR_DB_TIMEOUT">>().toEqualTypeOf<
+			["ERROR", "DB", "TIMEOUT"]
+		>();
+		expectTypeOf<TagSegments<"ERROR:DB:TIMEOUT", ":">>().toEqualTypeOf<
+			["ERROR", "DB", "TIMEOUT"]
+		>();
+		expectTypeOf<TagSegments<"ERROR">>().toEqualTypeOf<["ERROR"]>();
+		expectTypeOf<TagPaths<"ERROR_DB_TIMEOUT" | "SUCCESS">>().toEqualTypeOf<
+			"ERROR" | "ERROR_DB" | "ERROR_DB_TIMEOUT" | "SUCCESS"
+		>();
+		expectTypeOf<TagPaths<string>>().toEqualTypeOf<string>();
+	});
+
+	test("ResultsUnder should narrow a union to a hierarchy", () => {
+		expectTypeOf<ResultsUnder<UserResult, "NOT">["data"]>().toEqualTypeOf<{
+			id: number;
+		}>();
+		expectTypeOf<TagsOf<ResultsUnder<UserResult, "ERROR">>>().toEqualTypeOf<
+			TagsOf<ErrorOf<UserResult>>
+		>();
+	});
+});